@@ -6,7 +6,11 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
 import { openAIService } from '../../src/services/openai.service';
 import { searchService } from '../../src/services/search.service';
+import { conversationService } from '../../src/services/conversation.service';
+import { routerService } from '../../src/services/router.service';
+import { clarificationService } from '../../src/services/clarification.service';
 import { logger } from '../../src/utils/logger';
+import { wantsEventStream, initEventStream, sendEvent, endEventStream } from '../../src/utils/sse';
 import { validateConfig } from '../../src/config';
 import type { ApiResponse } from '../../src/types';
 
@@ -49,22 +53,9 @@ function setCorsHeaders(res: NextApiResponse): void {
   res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
 }
 
-/**
- * Check if the message is asking for products/merchandise
- */
-function isProductQuery(message: string): boolean {
-  const productKeywords = [
-    'buy', 'purchase', 'shop', 'merchandise', 'product', 'item', 'helmet', 'shirt', 'jacket',
-    'cap', 'hat', 't-shirt', 'hoodie', 'sweater', 'polo', 'jersey', 'diecast', 'model',
-    'collectible', 'souvenir', 'gift', 'present', 'price', 'cost', 'expensive', 'cheap',
-    'affordable', 'budget', 'show me', 'find me', 'looking for', 'need', 'want',
-    'f1', 'formula 1', 'racing', 'driver', 'team', 'lewis', 'hamilton', 'verstappen',
-    'red bull', 'ferrari', 'mercedes', 'mclaren', 'alpine', 'aston martin'
-  ];
-  
-  const lowerMessage = message.toLowerCase();
-  return productKeywords.some(keyword => lowerMessage.includes(keyword));
-}
+const OUT_OF_SCOPE_RESPONSE =
+  "I'm your F1 merchandise assistant, so I can only help with Formula 1 gear and F1 chat. " +
+  'Try asking for something like "Ferrari cap under $30" or "Verstappen hoodie"!';
 
 /**
  * Main chat handler
@@ -114,7 +105,7 @@ export default async function handler(
     }
 
     // Validate request body
-    const { message, maxResults } = req.body;
+    const { message, maxResults, sessionId } = req.body;
 
     if (!message || typeof message !== 'string' || message.trim().length === 0) {
       return res.status(400).json({
@@ -138,64 +129,202 @@ export default async function handler(
       });
     }
 
+    if (sessionId !== undefined && typeof sessionId !== 'string') {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'INVALID_SESSION_ID',
+          message: 'sessionId must be a string',
+        },
+        timestamp: new Date().toISOString(),
+      });
+    }
+
+    // Resume the conversation or start a new one
+    const session = conversationService.getOrCreateSession(sessionId);
+    const history = [...session.messages];
+    conversationService.addMessage(session.id, 'user', message.trim());
+
+    const classified = await routerService.route(message.trim(), !!(session.lastIntent || session.pendingIntent));
+
+    // Quick replies like "Ferrari" don't read as searches on their own, so anything
+    // short of out-of-scope answers a pending clarifying question
+    const pendingClarification = classified.route !== 'out_of_scope' ? session.pendingClarification : undefined;
+    const routeDecision = pendingClarification
+      ? { ...classified, route: 'follow_up' as const, reason: 'Answer to the pending clarifying question' }
+      : classified;
+
     logger.info('Processing chat request', { 
       message: message.substring(0, 100),
       ip,
-      isProductQuery: isProductQuery(message)
+      sessionId: session.id,
+      route: routeDecision.route,
+      routeReason: routeDecision.reason
     });
 
+    const streaming = wantsEventStream(req);
+    if (streaming) {
+      initEventStream(res);
+      sendEvent(res, 'session', { sessionId: session.id });
+      sendEvent(res, 'route', routeDecision);
+    }
+
     let response;
 
-    // Check if this is a product query
-    if (isProductQuery(message)) {
-      logger.info('Product query detected, searching for merchandise');
+    // A question the user moved on from isn't answered later
+    if (session.pendingClarification && !pendingClarification) {
+      conversationService.setPendingClarification(session.id);
+    }
+    const isFollowUp = routeDecision.route === 'follow_up';
+
+    if (routeDecision.route === 'product_search' || isFollowUp) {
+      logger.info('Product query detected, searching for merchandise', { isFollowUp });
+
+      // Only follow-ups refine the previous search (or the question's vague intent); new searches start fresh
+      const context = pendingClarification
+        ? { previousIntent: session.pendingIntent, history }
+        : isFollowUp
+          ? {
+              previousIntent: session.lastIntent,
+              previousProducts: session.lastProducts,
+              history,
+            }
+          : { history };
+
+      const resolvedIntent = await searchService.resolveIntent(message.trim(), context);
+
+      // Ask a clarifying question instead of scraping for a vague intent
+      const clarification = clarificationService.needsClarification(resolvedIntent.intent)
+        ? clarificationService.buildClarification(resolvedIntent.intent, pendingClarification)
+        : null;
+
+      if (clarification) {
+        conversationService.setPendingClarification(session.id, clarification, resolvedIntent.intent);
+        conversationService.addMessage(session.id, 'assistant', clarification.question);
+
+        const data = {
+          sessionId: session.id,
+          message: clarification.question,
+          products: [],
+          searchQuery: null,
+          intent: resolvedIntent.intent,
+          didYouMean: resolvedIntent.didYouMean,
+          sources: [],
+          totalFound: 0,
+          processingTime: 0,
+          isProductResponse: false,
+          isClarification: true,
+          clarification,
+          route: routeDecision,
+        };
+
+        if (streaming) {
+          sendEvent(res, 'clarification', clarification);
+          sendEvent(res, 'done', data);
+          endEventStream(res);
+          return;
+        }
+
+        return res.status(200).json({
+          success: true,
+          data,
+          timestamp: new Date().toISOString(),
+        });
+      }
       
       // Search for products
       const searchResults = await searchService.searchProducts(
         message.trim(),
-        maxResults || 20
+        maxResults || 20,
+        {
+          context,
+          resolvedIntent,
+          onEvent: streaming ? (event) => sendEvent(res, event.type, event) : undefined,
+        }
       );
 
-      // Generate AI response with products
-      response = await openAIService.generateResponse(
-        message.trim(),
-        searchResults.products,
-        searchResults.intent,
-        searchResults.sources
-      );
+      // Generate AI response with products (the streamed summary already is the response)
+      response = streaming
+        ? searchResults.summary
+        : await openAIService.generateResponse(
+            message.trim(),
+            searchResults.products,
+            searchResults.relaxation?.intent ?? searchResults.intent,
+            searchResults.sources
+          );
+
+      // Tell the user about impossible driver/team/season combinations and relaxed constraints
+      const notice = [...searchResults.era.conflicts.map((c) => c.message), searchResults.relaxation?.message]
+        .filter(Boolean)
+        .join(' ');
+      if (notice && !streaming) {
+        response = `${notice}\n\n${response}`;
+      }
+
+      conversationService.updateSearchState(session.id, searchResults.intent, searchResults.products);
+      conversationService.addMessage(session.id, 'assistant', response);
+
+      const data = {
+        sessionId: session.id,
+        message: response,
+        products: searchResults.products,
+        searchQuery: searchResults.searchQuery,
+        intent: searchResults.intent,
+        didYouMean: searchResults.didYouMean,
+        era: searchResults.era,
+        relaxation: searchResults.relaxation,
+        sources: searchResults.sources,
+        totalFound: searchResults.totalFound,
+        exactMatches: searchResults.exactMatches,
+        processingTime: searchResults.processingTime,
+        isProductResponse: true,
+        isClarification: false,
+        route: routeDecision,
+      };
+
+      if (streaming) {
+        sendEvent(res, 'done', data);
+        endEventStream(res);
+        return;
+      }
 
       return res.status(200).json({
         success: true,
-        data: {
-          message: response,
-          products: searchResults.products,
-          searchQuery: searchResults.searchQuery,
-          intent: searchResults.intent,
-          sources: searchResults.sources,
-          totalFound: searchResults.totalFound,
-          processingTime: searchResults.processingTime,
-          isProductResponse: true,
-        },
+        data,
         timestamp: new Date().toISOString(),
       });
     } else {
-      logger.info('General chat query, generating conversational response');
+      logger.info('Non-product query, generating conversational response', { route: routeDecision.route });
       
-      // Generate general AI response
-      const generalResponse = await openAIService.generateGeneralResponse(message.trim());
+      // Generate general AI response, or decline politely when out of scope
+      const generalResponse = routeDecision.route === 'out_of_scope'
+        ? OUT_OF_SCOPE_RESPONSE
+        : await openAIService.generateGeneralResponse(message.trim());
+      conversationService.addMessage(session.id, 'assistant', generalResponse);
+
+      const data = {
+        sessionId: session.id,
+        message: generalResponse,
+        products: [],
+        searchQuery: null,
+        intent: null,
+        sources: [],
+        totalFound: 0,
+        processingTime: 0,
+        isProductResponse: false,
+        isClarification: false,
+        route: routeDecision,
+      };
+
+      if (streaming) {
+        sendEvent(res, 'done', data);
+        endEventStream(res);
+        return;
+      }
       
       return res.status(200).json({
         success: true,
-        data: {
-          message: generalResponse,
-          products: [],
-          searchQuery: null,
-          intent: null,
-          sources: [],
-          totalFound: 0,
-          processingTime: 0,
-          isProductResponse: false,
-        },
+        data,
         timestamp: new Date().toISOString(),
       });
     }
@@ -205,6 +334,17 @@ export default async function handler(
 
     const errorMessage = error instanceof Error ? error.message : 'An unexpected error occurred';
 
+    // Headers are already sent once an event stream is open
+    if (res.headersSent) {
+      sendEvent(res, 'error', {
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'Failed to process chat request',
+        details: process.env.NODE_ENV === 'development' ? errorMessage : undefined,
+      });
+      endEventStream(res);
+      return;
+    }
+
     return res.status(500).json({
       success: false,
       error: {
@@ -1,10 +1,11 @@
 /**
  * Debug F1 Authentics Scraper
- * Test the specialized F1 Authentics scraper with load more functionality
+ * Test the Shopify adapter against F1 Authentics
  */
 
 import type { NextApiRequest, NextApiResponse } from 'next';
-import { f1AuthenticsScraperService } from '../../src/services/f1-authentics-scraper.service';
+import { scraperRegistry } from '../../src/scrapers/registry';
+import { getTargetById } from '../../src/config/scraper-targets';
 import { logger } from '../../src/utils/logger';
 
 export default async function handler(
@@ -20,8 +21,13 @@ export default async function handler(
   logger.info('Testing F1 Authentics scraper', { query });
 
   try {
-    // Test the specialized F1 Authentics scraper
-    const products = await f1AuthenticsScraperService.scrapeF1Authentics(query);
+    // Test the F1 Authentics adapter directly, without retries
+    const target = getTargetById('f1-authentics');
+    const adapter = target && scraperRegistry.resolve(target);
+    if (!target || !adapter) {
+      throw new Error('F1 Authentics target or adapter not configured');
+    }
+    const products = await adapter.search(target, query);
 
     logger.info('F1 Authentics scraper test completed', {
       productsFound: products.length,
@@ -52,8 +58,5 @@ export default async function handler(
       details: error instanceof Error ? error.stack : undefined,
       timestamp: new Date().toISOString(),
     });
-  } finally {
-    // Close browser
-    await f1AuthenticsScraperService.closeBrowser();
   }
 }
@@ -1,10 +1,15 @@
 /**
  * Health Check API Endpoint
  * Simple endpoint to verify the API is running
+ * ?scrapers=true also checks each enabled store is reachable by its scraper adapter
  */
 
 import type { NextApiRequest, NextApiResponse } from 'next';
 import { cache } from '../../src/utils/cache';
+import { scraperService } from '../../src/services/scraper.service';
+import { getEnabledTargets } from '../../src/config/scraper-targets';
+import { browserPool, BrowserPoolStats } from '../../src/scrapers/browser';
+import type { ScraperHealth } from '../../src/types';
 
 interface HealthResponse {
   status: 'healthy' | 'unhealthy';
@@ -15,15 +20,20 @@ interface HealthResponse {
     enabled: boolean;
   };
   environment: string;
+  browser: BrowserPoolStats;
+  scrapers?: Record<string, ScraperHealth>;
 }
 
 const startTime = Date.now();
 
-export default function handler(
+export default async function handler(
   req: NextApiRequest,
   res: NextApiResponse<HealthResponse>
 ) {
   const stats = cache.getStats();
+  const scrapers = req.query.scrapers === 'true'
+    ? await scraperService.checkHealth(getEnabledTargets())
+    : undefined;
 
   res.status(200).json({
     status: 'healthy',
@@ -34,6 +44,8 @@ export default function handler(
       enabled: stats.enabled,
     },
     environment: process.env.NODE_ENV || 'development',
+    browser: browserPool.getStats(),
+    scrapers,
   });
 }
 
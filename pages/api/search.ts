@@ -5,9 +5,15 @@
 
 import type { NextApiRequest, NextApiResponse } from 'next';
 import { searchService } from '../../src/services/search.service';
+import { facetService } from '../../src/services/facet.service';
+import { SORT_OPTIONS } from '../../src/services/result-set.service';
 import { logger } from '../../src/utils/logger';
+import { wantsEventStream, initEventStream, sendEvent, endEventStream } from '../../src/utils/sse';
 import { validateConfig } from '../../src/config';
-import type { ApiResponse, ApiRequest } from '../../src/types';
+import { getSourceSelectionError } from '../../src/config/scraper-targets';
+import type { ApiResponse, ApiRequest, RankerName } from '../../src/types';
+
+const RANKERS: RankerName[] = ['bm25', 'legacy'];
 
 // Validate configuration on startup
 try {
@@ -96,7 +102,29 @@ export default async function handler(
     }
 
     // Validate request body
-    const { message, maxResults, sources }: ApiRequest = req.body;
+    const { message, maxResults, sources, excludeSources, minPriority, ranker, facets, sort, cursor }: ApiRequest = req.body;
+
+    // Later pages come from the stored result set; sort and facets are carried in the cursor
+    if (cursor !== undefined) {
+      const page = typeof cursor === 'string' ? searchService.getPage(cursor) : null;
+
+      if (!page) {
+        return res.status(400).json({
+          success: false,
+          error: {
+            code: 'INVALID_CURSOR',
+            message: 'Cursor is invalid or has expired. Run the search again to get a new one.',
+          },
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      return res.status(200).json({
+        success: true,
+        data: page,
+        timestamp: new Date().toISOString(),
+      });
+    }
 
     if (!message || typeof message !== 'string' || message.trim().length === 0) {
       return res.status(400).json({
@@ -120,16 +148,82 @@ export default async function handler(
       });
     }
 
+    if (ranker !== undefined && !RANKERS.includes(ranker)) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'INVALID_REQUEST',
+          message: `ranker must be one of: ${RANKERS.join(', ')}`,
+        },
+        timestamp: new Date().toISOString(),
+      });
+    }
+
+    if (sort !== undefined && !SORT_OPTIONS.includes(sort)) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'INVALID_REQUEST',
+          message: `sort must be one of: ${SORT_OPTIONS.join(', ')}`,
+        },
+        timestamp: new Date().toISOString(),
+      });
+    }
+
+    const sourceSelection = { include: sources, exclude: excludeSources, minPriority };
+    const sourceError = getSourceSelectionError(sourceSelection);
+    if (sourceError) {
+      return res.status(400).json({
+        success: false,
+        error: sourceError,
+        timestamp: new Date().toISOString(),
+      });
+    }
+
+    const facetError = facets !== undefined ? facetService.getSelectionError(facets) : null;
+    if (facetError) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'INVALID_REQUEST',
+          message: facetError,
+        },
+        timestamp: new Date().toISOString(),
+      });
+    }
+
+    const streaming = wantsEventStream(req);
+
     logger.info('Processing search request', { 
       message: message.substring(0, 100),
       ip,
-      maxResults 
+      maxResults,
+      sources: sourceSelection,
+      ranker,
+      facets,
+      sort,
+      streaming
     });
 
+    // Stream progress events instead of a single JSON response
+    if (streaming) {
+      initEventStream(res);
+      await searchService.searchProducts(message.trim(), maxResults || 20, {
+        ranker,
+        facets,
+        sort,
+        sources: sourceSelection,
+        onEvent: (event) => sendEvent(res, event.type, event),
+      });
+      endEventStream(res);
+      return;
+    }
+
     // Perform search
     const searchResults = await searchService.searchProducts(
       message.trim(),
-      maxResults || 20
+      maxResults || 20,
+      { ranker, facets, sort, sources: sourceSelection }
     );
 
     // Return successful response
@@ -143,6 +237,17 @@ export default async function handler(
 
     const errorMessage = error instanceof Error ? error.message : 'An unexpected error occurred';
 
+    // Headers are already sent once an event stream is open
+    if (res.headersSent) {
+      sendEvent(res, 'error', {
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'Failed to process search request',
+        details: process.env.NODE_ENV === 'development' ? errorMessage : undefined,
+      });
+      endEventStream(res);
+      return;
+    }
+
     return res.status(500).json({
       success: false,
       error: {
@@ -0,0 +1,100 @@
+/**
+ * Conversation Session API Endpoint
+ * Inspect (GET) or delete (DELETE) a chat session
+ */
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { conversationService } from '../../../src/services/conversation.service';
+import { logger } from '../../../src/utils/logger';
+
+/**
+ * CORS headers
+ */
+function setCorsHeaders(res: NextApiResponse): void {
+  res.setHeader('Access-Control-Allow-Credentials', 'true');
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, DELETE, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+}
+
+/**
+ * Session handler
+ */
+export default function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  // Set CORS headers
+  setCorsHeaders(res);
+
+  // Handle OPTIONS request
+  if (req.method === 'OPTIONS') {
+    res.status(200).end();
+    return;
+  }
+
+  const { sessionId } = req.query;
+
+  if (typeof sessionId !== 'string' || sessionId.length === 0) {
+    return res.status(400).json({
+      success: false,
+      error: {
+        code: 'INVALID_SESSION_ID',
+        message: 'Session ID is required',
+      },
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  if (req.method === 'GET') {
+    const session = conversationService.getSession(sessionId);
+
+    if (!session) {
+      return res.status(404).json({
+        success: false,
+        error: {
+          code: 'SESSION_NOT_FOUND',
+          message: 'Session not found or expired',
+        },
+        timestamp: new Date().toISOString(),
+      });
+    }
+
+    return res.status(200).json({
+      success: true,
+      data: session,
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  if (req.method === 'DELETE') {
+    const deleted = conversationService.deleteSession(sessionId);
+
+    if (!deleted) {
+      return res.status(404).json({
+        success: false,
+        error: {
+          code: 'SESSION_NOT_FOUND',
+          message: 'Session not found or expired',
+        },
+        timestamp: new Date().toISOString(),
+      });
+    }
+
+    logger.info('Session deleted via API', { sessionId });
+    return res.status(200).json({
+      success: true,
+      data: { sessionId, deleted: true },
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  return res.status(405).json({
+    success: false,
+    error: {
+      code: 'METHOD_NOT_ALLOWED',
+      message: 'Only GET and DELETE requests are allowed',
+    },
+    timestamp: new Date().toISOString(),
+  });
+}
@@ -57,9 +57,6 @@ export default async function handler(
       }
     }
 
-    // Close browser
-    await scraperService.closeBrowser();
-
     res.status(200).json({
       success: true,
       data: {
@@ -77,9 +74,6 @@ export default async function handler(
   } catch (error) {
     logger.error('Simple scrape test failed', { error });
     
-    // Ensure browser is closed
-    await scraperService.closeBrowser();
-    
     res.status(500).json({
       success: false,
       error: error instanceof Error ? error.message : 'Unknown error',
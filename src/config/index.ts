@@ -8,7 +8,80 @@ export const config = {
   openai: {
     apiKey: process.env.OPENAI_API_KEY || '',
     model: process.env.OPENAI_MODEL || 'gpt-5-nano',
+    routerModel: process.env.OPENAI_ROUTER_MODEL || 'gpt-5-nano',
     maxTokens: 500,
+    intentMaxAttempts: parseInt(process.env.OPENAI_INTENT_MAX_ATTEMPTS || '2', 10),
+  },
+
+  // Intent Extraction
+  intent: {
+    // 'llm' cross-checks the model with rules; 'rules' never calls the model (offline)
+    extractor: process.env.INTENT_EXTRACTOR === 'rules' ? 'rules' : 'llm',
+  },
+
+  // Result Ranking
+  ranking: {
+    // 'bm25' is the field-weighted ranker; 'legacy' keeps the original substring scorer for A/B comparison
+    ranker: process.env.SEARCH_RANKER === 'legacy' ? 'legacy' : 'bm25',
+    bm25: {
+      k1: parseFloat(process.env.RANKING_BM25_K1 || '1.2'), // Term frequency saturation
+      b: parseFloat(process.env.RANKING_BM25_B || '0.75'), // Field length normalization
+    },
+    fieldWeights: { name: 3, description: 1, brand: 1 },
+    boosts: {
+      team: 2,
+      driver: 2,
+      productType: 2,
+      colour: 1,
+      season: 1,
+      size: 0.5,
+      condition: 1,
+      inBudget: 1,
+      outOfBudget: -1,
+      inStock: 0.5,
+      limitedStock: 0.25,
+      outOfStock: -0.5,
+      excluded: -10,
+      violated: -1.5,
+    },
+  },
+
+  // Semantic Re-ranking
+  embeddings: {
+    // 'openai' calls the embeddings API, 'local' runs a small model on the CPU, 'hash' is a deterministic
+    // stub for tests; unset turns re-ranking off
+    provider: process.env.EMBEDDING_PROVIDER || '',
+    openaiModel: process.env.EMBEDDING_OPENAI_MODEL || 'text-embedding-3-small',
+    localModel: process.env.EMBEDDING_LOCAL_MODEL || 'Xenova/all-MiniLM-L6-v2',
+    localCacheDir: process.env.EMBEDDING_LOCAL_CACHE_DIR || '', // Model download directory, defaults to the package cache
+    hashDimensions: 256,
+    weight: parseFloat(process.env.SEMANTIC_RERANK_WEIGHT || '0.4'), // Share of the final order taken from similarity
+    topK: parseInt(process.env.SEMANTIC_RERANK_TOP_K || '50', 10), // Only the best lexical matches are re-ranked
+    timeout: parseInt(process.env.SEMANTIC_RERANK_TIMEOUT_MS || '3000', 10),
+    cacheSize: parseInt(process.env.EMBEDDING_CACHE_SIZE || '5000', 10), // Product embeddings kept in memory
+  },
+
+  // Zero-results Recovery
+  relaxation: {
+    budgetFactor: 1.5, // A relaxed budget's maximum goes up, and its minimum down, by this factor
+    maxElapsedMs: parseInt(process.env.RELAXATION_MAX_ELAPSED_MS || '25000', 10), // No new scrapes for retries after this
+  },
+
+  // Cross-store Product Clustering
+  clustering: {
+    similarityThreshold: 0.8, // Minimum name similarity (plus image and price signals) to merge listings
+    maxPriceRatio: 2, // Listings whose prices differ more than this are different products
+  },
+
+  // Search Facets
+  facets: {
+    priceBuckets: [25, 50, 100, 200], // Bucket boundaries: under 25, 25-50, ..., 200 and over
+  },
+
+  // Result Set Pagination
+  pagination: {
+    ttl: parseInt(process.env.RESULT_SET_TTL_SECONDS || '900', 10), // How long cursors stay valid
+    maxResultSets: parseInt(process.env.RESULT_SET_MAX_COUNT || '200', 10),
   },
 
   // Application Settings
@@ -28,11 +101,19 @@ export const config = {
   // Web Scraper Configuration
   scraper: {
     timeout: parseInt(process.env.SCRAPER_TIMEOUT_MS || '10000', 10),
-    maxConcurrent: parseInt(process.env.SCRAPER_MAX_CONCURRENT || '5', 10),
+    maxConcurrent: parseInt(process.env.SCRAPER_MAX_CONCURRENT || '5', 10), // Browser pages open at once, across all searches
+    maxIdlePages: 2, // Pages a search keeps open for its next scrape
+    browserIdleMs: parseInt(process.env.BROWSER_IDLE_MS || '60000', 10), // Close the browser after no search used it this long
     delayBetweenRequests: parseInt(process.env.SCRAPER_DELAY_MS || '1000', 10),
     userAgent: 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
     maxRetries: 3,
     retryDelay: 2000,
+    shopifyProductLimit: 10, // Products per Shopify predictive search, which allows at most 10
+    pagination: {
+      maxPages: parseInt(process.env.SCRAPER_MAX_PAGES || '3', 10), // Default for targets that paginate
+      maxItems: parseInt(process.env.SCRAPER_MAX_ITEMS || '60', 10),
+      waitMs: 1500, // Browser wait for new products after each click or scroll
+    },
   },
 
   // Cache Configuration
@@ -41,6 +122,13 @@ export const config = {
     enabled: process.env.NODE_ENV === 'production',
   },
 
+  // Conversation Session Configuration
+  conversation: {
+    ttl: parseInt(process.env.SESSION_TTL_SECONDS || '1800', 10),
+    maxMessages: parseInt(process.env.SESSION_MAX_MESSAGES || '20', 10),
+    maxSessions: parseInt(process.env.SESSION_MAX_COUNT || '1000', 10),
+  },
+
   // Logging Configuration
   logging: {
     level: process.env.LOG_LEVEL || 'info',
@@ -0,0 +1,60 @@
+/**
+ * Product Taxonomy
+ * Canonical product types and the categories they belong to
+ */
+
+import { tokenize } from '../utils/helpers';
+import type { ProductType, ProductCategory } from '../types';
+
+export const PRODUCT_TYPES: Record<ProductType, { label: string; category: ProductCategory; keywords: string[] }> = {
+  't-shirt': { label: 't-shirts', category: 'clothing', keywords: ['t-shirt', 'tshirt', 'tee', 'shirt'] },
+  polo: { label: 'polos', category: 'clothing', keywords: ['polo'] },
+  hoodie: { label: 'hoodies', category: 'clothing', keywords: ['hoodie', 'hoody', 'sweatshirt', 'sweater'] },
+  jacket: { label: 'jackets', category: 'clothing', keywords: ['jacket', 'softshell', 'gilet', 'coat'] },
+  jersey: { label: 'jerseys', category: 'clothing', keywords: ['jersey', 'race suit', 'racewear', 'teamwear'] },
+  cap: { label: 'caps', category: 'headwear', keywords: ['cap', 'baseball hat', 'snapback'] },
+  beanie: { label: 'beanies', category: 'headwear', keywords: ['beanie', 'bobble hat', 'woolly hat'] },
+  helmet: { label: 'helmets', category: 'collectibles', keywords: ['helmet'] },
+  'model-car': { label: 'model cars', category: 'collectibles', keywords: ['model car', 'diecast', 'die-cast', 'model', 'scale model'] },
+  memorabilia: { label: 'memorabilia', category: 'collectibles', keywords: ['signed', 'autograph', 'autographed', 'memorabilia', 'race-used', 'race used'] },
+  poster: { label: 'posters', category: 'accessories', keywords: ['poster', 'print', 'artwork'] },
+  flag: { label: 'flags', category: 'accessories', keywords: ['flag', 'banner'] },
+  bag: { label: 'bags', category: 'accessories', keywords: ['bag', 'backpack', 'rucksack'] },
+  accessory: { label: 'accessories', category: 'accessories', keywords: ['keyring', 'keychain', 'mug', 'lanyard', 'umbrella', 'accessory'] },
+  other: { label: 'other items', category: 'accessories', keywords: [] },
+};
+
+/**
+ * Get the category a product type belongs to
+ */
+export function getCategoryForProductType(productType: ProductType): ProductCategory {
+  return PRODUCT_TYPES[productType].category;
+}
+
+/**
+ * Get all keywords for a product type
+ */
+export function getProductTypeKeywords(productType: ProductType): string[] {
+  return PRODUCT_TYPES[productType].keywords;
+}
+
+/**
+ * Get the plural display label for a product type ("model-car" -> "model cars")
+ */
+export function getProductTypeLabel(productType: ProductType): string {
+  return PRODUCT_TYPES[productType].label;
+}
+
+/**
+ * Product types whose keywords all appear as words in the text ("Ferrari Team Caps" -> cap, not "capsule")
+ */
+export function detectProductTypes(text: string): ProductType[] {
+  const words = new Set(tokenize(text));
+
+  return (Object.keys(PRODUCT_TYPES) as ProductType[]).filter((type) =>
+    PRODUCT_TYPES[type].keywords.some((keyword) => {
+      const terms = tokenize(keyword);
+      return terms.length > 0 && terms.every((term) => words.has(term));
+    })
+  );
+}
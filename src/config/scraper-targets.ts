@@ -3,7 +3,7 @@
  * Defines all F1 merchandise websites to scrape
  */
 
-import type { ScraperTarget } from '../types';
+import type { ScraperTarget, SourceSelection, ApiError } from '../types';
 
 export const SCRAPER_TARGETS: ScraperTarget[] = [
   {
@@ -11,11 +11,14 @@ export const SCRAPER_TARGETS: ScraperTarget[] = [
     name: 'F1 Authentics',
     baseUrl: 'https://www.f1authentics.com',
     searchPath: '/search',
-    enabled: true, // Temporarily disabled due to Vercel Puppeteer issues
+    enabled: true,
     priority: 10,
     delay: 1000,
-    requiresJavaScript: true, // Back to Puppeteer for load more functionality
-    timeout: 50000,
+    requiresJavaScript: false, // Shopify JSON endpoints, no browser needed
+    timeout: 15000,
+    merchandise: ['current', 'vintage'],
+    adapter: 'shopify',
+    currency: 'USD',
     selectors: {
       productContainer: '.product-tile, .product-item, .product-card, .product, .grid-item, [data-testid="product"]',
       name: 'h3, h4, .product-name, .product-title, .title, h2, a, .product-tile a',
@@ -24,7 +27,6 @@ export const SCRAPER_TARGETS: ScraperTarget[] = [
       link: 'a',
       availability: '.availability, .stock-status, .in-stock, .out-of-stock',
       description: '.product-description, .description',
-      loadMoreButton: '.load-more, .show-more, [data-testid="load-more"], button:contains("Load More"), button:contains("Show More")',
     },
   },
   {
@@ -56,6 +58,10 @@ export const SCRAPER_TARGETS: ScraperTarget[] = [
     delay: 2000,
     requiresJavaScript: false, // Try static scraping first
     timeout: 30000,
+    merchandise: ['current', 'vintage'],
+    queryTemplate: 'F1 {season} {team} {driver} {colour} {item}', // Without "F1" eBay returns unrelated listings
+    vocabulary: { 'model-car': 'diecast', memorabilia: 'signed' },
+    pagination: { strategy: 'page-param', param: '_pgn', maxPages: 2 },
     selectors: {
       productContainer: '.s-item, .item, .product-item, .listing-item',
       name: '.s-item__title, h3, .item-title, .product-title',
@@ -97,6 +103,7 @@ export const SCRAPER_TARGETS: ScraperTarget[] = [
     delay: 2000,
     requiresJavaScript: true,
     timeout: 20000,
+    vocabulary: { cap: 'hat', hoodie: 'sweatshirt' },
     selectors: {
       productContainer: '.product-item, .product-card, .search-result-item, [data-testid="product"]',
       name: '.product-name, h3, .product-title, .item-name, h2',
@@ -115,6 +122,9 @@ export const SCRAPER_TARGETS: ScraperTarget[] = [
     delay: 2000,
     requiresJavaScript: true,
     timeout: 80000,
+    merchandise: ['current', 'vintage'],
+    vocabulary: { 'model-car': 'diecast' },
+    pagination: { strategy: 'infinite-scroll', maxPages: 3 },
     selectors: {
       productContainer: '[data-testid="product-tile"], .product-tile, .product-item, .product-card, .item, .product, .listing',
       name: 'h3, h4, .product-name, .product-title, .title, h2, a, [data-testid="product-name"], .listing-title',
@@ -152,3 +162,65 @@ export function getTargetsByPriority(minPriority: number): ScraperTarget[] {
     .sort((a, b) => b.priority - a.priority);
 }
 
+/**
+ * Targets for one request: the included ids (every enabled target when none are given),
+ * without the excluded ids, at or above minPriority
+ */
+export function selectTargets(selection: SourceSelection = {}): ScraperTarget[] {
+  const { include, exclude = [], minPriority } = selection;
+  const candidates = minPriority !== undefined ? getTargetsByPriority(minPriority) : getEnabledTargets();
+
+  return candidates.filter((target) =>
+    (!include || include.length === 0 || include.includes(target.id)) && !exclude.includes(target.id)
+  );
+}
+
+/**
+ * Validate a source selection against SCRAPER_TARGETS, returning an API error or null
+ */
+export function getSourceSelectionError(selection: SourceSelection): ApiError | null {
+  const { include, exclude, minPriority } = selection;
+  const enabledIds = getEnabledTargets().map((target) => target.id);
+
+  for (const [field, ids] of [['sources', include], ['excludeSources', exclude]] as const) {
+    if (ids === undefined) continue;
+    if (!Array.isArray(ids) || ids.some((id) => typeof id !== 'string')) {
+      return { code: 'INVALID_REQUEST', message: `${field} must be an array of source ids` };
+    }
+
+    const unknown = ids.filter((id) => !getTargetById(id));
+    if (unknown.length > 0) {
+      return {
+        code: 'UNKNOWN_SOURCE',
+        message: `Unknown source${unknown.length > 1 ? 's' : ''}: ${unknown.join(', ')}. Valid sources: ${SCRAPER_TARGETS.map((t) => t.id).join(', ')}`,
+      };
+    }
+  }
+
+  // Excluding a disabled target is harmless, asking to scrape one is not
+  const disabled = (include || []).filter((id) => !enabledIds.includes(id));
+  if (disabled.length > 0) {
+    return {
+      code: 'SOURCE_DISABLED',
+      message: `Source${disabled.length > 1 ? 's' : ''} currently disabled: ${disabled.join(', ')}. Enabled sources: ${enabledIds.join(', ') || 'none'}`,
+    };
+  }
+
+  if (minPriority !== undefined && (typeof minPriority !== 'number' || !Number.isFinite(minPriority))) {
+    return { code: 'INVALID_REQUEST', message: 'minPriority must be a number' };
+  }
+
+  if (selectTargets(selection).length === 0) {
+    const belowThreshold = minPriority !== undefined
+      ? (include || enabledIds).filter((id) => (getTargetById(id)?.priority ?? 0) < minPriority)
+      : [];
+    return {
+      code: 'NO_SOURCES',
+      message: belowThreshold.length > 0
+        ? `No sources left to search: ${belowThreshold.join(', ')} ${belowThreshold.length > 1 ? 'are' : 'is'} below priority ${minPriority}`
+        : 'No sources left to search after applying sources and excludeSources',
+    };
+  }
+
+  return null;
+}
@@ -0,0 +1,235 @@
+/**
+ * Intent Evaluation
+ * Scores extracted intents against the golden dataset with per-field precision and recall
+ */
+
+import { normalizeText } from '../utils/helpers';
+import type {
+  SearchIntent,
+  IntentExtractor,
+  IntentEvalCase,
+  IntentEvalDataset,
+  IntentEvalReport,
+  IntentCaseResult,
+  IntentFieldDiff,
+  IntentFieldScore,
+} from '../types';
+
+export type IntentExtractorFn = (testCase: IntentEvalCase) => Promise<SearchIntent | null>;
+
+export const SCORED_FIELDS: (keyof SearchIntent)[] = [
+  'item', 'productType', 'category', 'team', 'driver', 'minPrice', 'maxPrice', 'currency', 'size',
+  'colour', 'season', 'era', 'condition', 'excludedTeams', 'excludedDrivers', 'excludedProductTypes', 'excludedTerms',
+];
+
+interface FieldCounts {
+  truePositives: number;
+  falsePositives: number;
+  falseNegatives: number;
+}
+
+/**
+ * Run an extractor over every case and score the results
+ * Cases run one at a time so recorded responses replay deterministically
+ */
+export async function evaluateIntents(
+  dataset: IntentEvalDataset,
+  extractor: IntentExtractor,
+  extract: IntentExtractorFn,
+  extractorName: string = extractor
+): Promise<IntentEvalReport> {
+  const counts = new Map<keyof SearchIntent, FieldCounts>(
+    SCORED_FIELDS.map((field) => [field, { truePositives: 0, falsePositives: 0, falseNegatives: 0 }])
+  );
+  const cases: IntentCaseResult[] = [];
+
+  for (const testCase of dataset.cases) {
+    const actual = await extract(testCase);
+    const diffs: IntentFieldDiff[] = [];
+
+    SCORED_FIELDS.forEach((field) => {
+      const fieldCounts = counts.get(field)!;
+      const result = compareField(field, testCase.expected[field], actual?.[field]);
+
+      fieldCounts.truePositives += result.truePositives;
+      fieldCounts.falsePositives += result.falsePositives;
+      fieldCounts.falseNegatives += result.falseNegatives;
+
+      if (result.falsePositives > 0 || result.falseNegatives > 0) {
+        diffs.push({ field, expected: testCase.expected[field], actual: actual?.[field] });
+      }
+    });
+
+    cases.push({
+      id: testCase.id,
+      query: testCase.query,
+      actual,
+      exact: diffs.length === 0,
+      diffs,
+      knownFailure: testCase.knownFailures?.[extractor],
+    });
+  }
+
+  const fields = SCORED_FIELDS.map((field) => toScore(field, counts.get(field)!));
+  const total = Array.from(counts.values()).reduce(
+    (sum, c) => ({
+      truePositives: sum.truePositives + c.truePositives,
+      falsePositives: sum.falsePositives + c.falsePositives,
+      falseNegatives: sum.falseNegatives + c.falseNegatives,
+    }),
+    { truePositives: 0, falsePositives: 0, falseNegatives: 0 }
+  );
+  const { precision, recall, f1 } = toScore('item', total);
+
+  return {
+    extractor: extractorName,
+    datasetVersion: dataset.version,
+    createdAt: new Date().toISOString(),
+    totalCases: cases.length,
+    exactMatches: cases.filter((c) => c.exact).length,
+    failedExtractions: cases.filter((c) => c.actual === null).length,
+    overall: { precision, recall, f1 },
+    fields,
+    cases,
+  };
+}
+
+/**
+ * Format a report as a plain-text table plus the failing cases
+ */
+export function formatReport(report: IntentEvalReport, maxDiffs: number = 50): string {
+  const pct = (value: number) => `${(value * 100).toFixed(1)}%`.padStart(7);
+  const lines = [
+    `Extractor: ${report.extractor}  Dataset: v${report.datasetVersion}  Cases: ${report.totalCases}`,
+    `Exact matches: ${report.exactMatches}/${report.totalCases} (${pct(report.exactMatches / Math.max(report.totalCases, 1)).trim()})` +
+      `  Failed extractions: ${report.failedExtractions}`,
+    `Overall  precision ${pct(report.overall.precision)}  recall ${pct(report.overall.recall)}  f1 ${pct(report.overall.f1)}`,
+    '',
+    `${'Field'.padEnd(22)}${'TP'.padStart(5)}${'FP'.padStart(5)}${'FN'.padStart(5)}  Precision   Recall       F1`,
+  ];
+
+  report.fields.forEach((f) => {
+    lines.push(
+      `${f.field.padEnd(22)}${String(f.truePositives).padStart(5)}${String(f.falsePositives).padStart(5)}` +
+        `${String(f.falseNegatives).padStart(5)}    ${pct(f.precision)}  ${pct(f.recall)}  ${pct(f.f1)}`
+    );
+  });
+
+  const formatCase = (c: IntentCaseResult) => {
+    lines.push(`  ${c.id} "${c.query}"${c.actual === null ? ' (extraction failed)' : ''}`);
+    if (c.knownFailure) lines.push(`    known failure: ${c.knownFailure}`);
+    c.diffs.forEach((d) => {
+      lines.push(`    ${d.field}: expected ${JSON.stringify(d.expected)}, got ${JSON.stringify(d.actual)}`);
+    });
+  };
+
+  const failing = report.cases.filter((c) => !c.exact && !c.knownFailure);
+  if (failing.length > 0) {
+    lines.push('', `Mismatches (${failing.length} cases${failing.length > maxDiffs ? `, first ${maxDiffs} shown` : ''}):`);
+    failing.slice(0, maxDiffs).forEach(formatCase);
+  }
+
+  const known = report.cases.filter((c) => !c.exact && c.knownFailure);
+  if (known.length > 0) {
+    lines.push('', `Known failures (${known.length} cases):`);
+    known.forEach(formatCase);
+  }
+
+  // A known failure that passes should be taken off the list
+  const passing = report.cases.filter((c) => c.exact && c.knownFailure);
+  if (passing.length > 0) {
+    lines.push('', `Known failures now passing: ${passing.map((c) => c.id).join(', ')}`);
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Compare a report with a baseline run: per-field F1 changes, and cases fixed or broken
+ */
+export function compareReports(baseline: IntentEvalReport, current: IntentEvalReport): string {
+  const delta = (before: number, after: number) => {
+    const points = (after - before) * 100;
+    return `${points >= 0 ? '+' : ''}${points.toFixed(1)}`;
+  };
+  const baselineExact = new Map(baseline.cases.map((c) => [c.id, c.exact]));
+
+  const lines = [
+    `Compared with ${baseline.extractor} run from ${baseline.createdAt} (dataset v${baseline.datasetVersion})`,
+    `Exact matches: ${baseline.exactMatches} -> ${current.exactMatches}`,
+    `Overall f1: ${delta(baseline.overall.f1, current.overall.f1)} points`,
+    '',
+  ];
+
+  current.fields.forEach((field) => {
+    const before = baseline.fields.find((f) => f.field === field.field);
+    if (!before || before.f1 === field.f1) return;
+    lines.push(`  ${field.field.padEnd(22)} f1 ${delta(before.f1, field.f1)} points`);
+  });
+
+  const fixed = current.cases.filter((c) => c.exact && baselineExact.get(c.id) === false);
+  const broken = current.cases.filter((c) => !c.exact && baselineExact.get(c.id) === true);
+
+  if (fixed.length > 0) lines.push('', `Fixed (${fixed.length}): ${fixed.map((c) => c.id).join(', ')}`);
+  if (broken.length > 0) {
+    lines.push('', `Regressed (${broken.length}):`);
+    broken.forEach((c) => lines.push(`  ${c.id} "${c.query}" ${c.diffs.map((d) => d.field).join(', ')}`));
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Count matches for one field; list fields count per element
+ */
+function compareField(field: keyof SearchIntent, expected: unknown, actual: unknown): FieldCounts {
+  if (Array.isArray(expected) || Array.isArray(actual)) {
+    const expectedSet = new Set(((expected as unknown[]) || []).map((v) => normalizeText(String(v))));
+    const actualSet = new Set(((actual as unknown[]) || []).map((v) => normalizeText(String(v))));
+    const matched = Array.from(actualSet).filter((v) => expectedSet.has(v)).length;
+    return {
+      truePositives: matched,
+      falsePositives: actualSet.size - matched,
+      falseNegatives: expectedSet.size - matched,
+    };
+  }
+
+  const hasExpected = expected !== undefined && expected !== null;
+  const hasActual = actual !== undefined && actual !== null;
+
+  if (!hasExpected && !hasActual) return { truePositives: 0, falsePositives: 0, falseNegatives: 0 };
+  if (!hasExpected) return { truePositives: 0, falsePositives: 1, falseNegatives: 0 };
+  if (!hasActual) return { truePositives: 0, falsePositives: 0, falseNegatives: 1 };
+
+  return valuesMatch(field, expected, actual)
+    ? { truePositives: 1, falsePositives: 0, falseNegatives: 0 }
+    : { truePositives: 0, falsePositives: 1, falseNegatives: 1 };
+}
+
+/**
+ * Numbers match to the cent and strings case- and accent-insensitively
+ * Items are in the user's words, so either containing the other counts ("softshell" vs "softshell jacket")
+ */
+function valuesMatch(field: keyof SearchIntent, expected: unknown, actual: unknown): boolean {
+  if (typeof expected === 'number' || typeof actual === 'number') {
+    return Math.abs(Number(expected) - Number(actual)) < 0.01;
+  }
+
+  const a = normalizeText(String(expected));
+  const b = normalizeText(String(actual));
+
+  if (field === 'item') {
+    const singular = (text: string) => text.replace(/e?s$/, '');
+    return a.includes(singular(b)) || b.includes(singular(a));
+  }
+
+  return a === b;
+}
+
+function toScore(field: keyof SearchIntent, counts: FieldCounts): IntentFieldScore {
+  const { truePositives, falsePositives, falseNegatives } = counts;
+  const precision = truePositives + falsePositives > 0 ? truePositives / (truePositives + falsePositives) : 1;
+  const recall = truePositives + falseNegatives > 0 ? truePositives / (truePositives + falseNegatives) : 1;
+  const f1 = precision + recall > 0 ? (2 * precision * recall) / (precision + recall) : 0;
+  return { field, truePositives, falsePositives, falseNegatives, precision, recall, f1 };
+}
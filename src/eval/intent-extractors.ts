@@ -0,0 +1,120 @@
+/**
+ * Intent Extractors for Evaluation
+ * Rules-based extraction, and LLM extraction that records or replays model responses
+ */
+
+import { createHash } from 'crypto';
+import fs from 'fs';
+import OpenAI from 'openai';
+import { OpenAIService, openAIService } from '../services/openai.service';
+import { ruleIntentService } from '../services/rule-intent.service';
+import { config } from '../config';
+import type { IntentRecording, RecordedCompletion } from '../types';
+import type { IntentExtractorFn } from './intent-eval';
+
+export type LlmMode = 'replay' | 'record';
+
+export interface LlmExtractor {
+  extract: IntentExtractorFn;
+  /** Cases with no recorded response (replay) */
+  missing: string[];
+  /** Cases whose request no longer matches the recording, e.g. after a prompt change (replay) */
+  stale: string[];
+  /** Write the recording file (record) */
+  save: () => void;
+}
+
+/**
+ * Rule-based extraction, merged into the previous intent for follow-ups like the search service does
+ */
+export const rulesExtractor: IntentExtractorFn = async (testCase) => {
+  const intent = ruleIntentService.extract(testCase.query);
+  const previousIntent = testCase.context?.previousIntent;
+  return previousIntent ? openAIService.mergeIntent(previousIntent, intent) : intent;
+};
+
+/**
+ * LLM extraction through openAIService.extractIntent
+ * Record mode calls the API and stores every response per case; replay mode serves them back
+ * offline, so prompt parsing, validation, retries and merging all run as in production
+ */
+export function createLlmExtractor(mode: LlmMode, recordingPath: string): LlmExtractor {
+  const recording: IntentRecording = mode === 'replay'
+    ? loadRecording(recordingPath)
+    : { model: config.openai.model, recordedAt: new Date().toISOString(), responses: {} };
+  const missing = new Set<string>();
+  const stale = new Set<string>();
+  let currentCase = '';
+  let attempt = 0;
+
+  const replayFetch = async (_input: string | URL | Request, init?: RequestInit): Promise<Response> => {
+    const recorded = recording.responses[currentCase]?.[attempt++];
+
+    if (!recorded) {
+      missing.add(currentCase);
+      return jsonResponse(404, { error: { message: `No recorded response for ${currentCase}`, type: 'not_found' } });
+    }
+    if (recorded.requestHash !== hashRequest(init)) {
+      stale.add(currentCase);
+    }
+    return jsonResponse(200, recorded.response);
+  };
+
+  const recordFetch = async (input: string | URL | Request, init?: RequestInit): Promise<Response> => {
+    const response = await fetch(input, init);
+    const body = await response.clone().json();
+
+    if (response.ok) {
+      const entry: RecordedCompletion = { requestHash: hashRequest(init), response: body };
+      (recording.responses[currentCase] ||= []).push(entry);
+    }
+    return response;
+  };
+
+  const client = new OpenAI({
+    apiKey: mode === 'replay' ? 'replay' : config.openai.apiKey,
+    fetch: mode === 'replay' ? replayFetch : recordFetch,
+    maxRetries: 0,
+  });
+  const service = new OpenAIService(client);
+
+  return {
+    extract: async (testCase) => {
+      currentCase = testCase.id;
+      attempt = 0;
+      if (mode === 'record') delete recording.responses[testCase.id];
+      return service.extractIntent(testCase.query, { ...testCase.context });
+    },
+    get missing() {
+      return Array.from(missing);
+    },
+    get stale() {
+      return Array.from(stale);
+    },
+    save: () => {
+      fs.writeFileSync(recordingPath, `${JSON.stringify(recording, null, 2)}\n`);
+    },
+  };
+}
+
+function loadRecording(recordingPath: string): IntentRecording {
+  if (!fs.existsSync(recordingPath)) {
+    throw new Error(`No recording at ${recordingPath}. Record one with --record (needs OPENAI_API_KEY).`);
+  }
+  return JSON.parse(fs.readFileSync(recordingPath, 'utf8')) as IntentRecording;
+}
+
+/**
+ * Hash of the request body, so replays can detect prompt, schema or model changes
+ */
+function hashRequest(init?: RequestInit): string {
+  const body = typeof init?.body === 'string' ? init.body : '';
+  return createHash('sha256').update(body).digest('hex').slice(0, 16);
+}
+
+function jsonResponse(status: number, body: unknown): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'content-type': 'application/json' },
+  });
+}
@@ -0,0 +1,125 @@
+/**
+ * Intent Evaluation Runner
+ * Usage: npm run eval:intent -- [--extractor rules|llm] [--record] [--tag follow-up] [--limit 50]
+ *                               [--out report.json] [--compare baseline.json] [--max-diffs 50]
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { evaluateIntents, formatReport, compareReports } from './intent-eval';
+import { rulesExtractor, createLlmExtractor } from './intent-extractors';
+import type { IntentEvalDataset, IntentEvalReport } from '../types';
+
+const DEFAULT_DATASET = path.join('src', 'eval', 'datasets', 'intent-golden.json');
+const DEFAULT_RECORDING = path.join('src', 'eval', 'recordings', 'intent-llm.json');
+
+interface RunOptions {
+  extractor: 'rules' | 'llm';
+  record: boolean;
+  dataset: string;
+  recording: string;
+  tag?: string;
+  limit?: number;
+  out?: string;
+  compare?: string;
+  maxDiffs: number;
+}
+
+function parseArgs(argv: string[]): RunOptions {
+  const options: RunOptions = {
+    extractor: 'rules',
+    record: false,
+    dataset: DEFAULT_DATASET,
+    recording: DEFAULT_RECORDING,
+    maxDiffs: 50,
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    const value = () => {
+      const next = argv[++i];
+      if (next === undefined) throw new Error(`Missing value for ${arg}`);
+      return next;
+    };
+
+    switch (arg) {
+      case '--extractor': {
+        const extractor = value();
+        if (extractor !== 'rules' && extractor !== 'llm') throw new Error(`Unknown extractor: ${extractor}`);
+        options.extractor = extractor;
+        break;
+      }
+      case '--record': options.record = true; break;
+      case '--dataset': options.dataset = value(); break;
+      case '--recording': options.recording = value(); break;
+      case '--tag': options.tag = value(); break;
+      case '--limit': options.limit = parseInt(value(), 10); break;
+      case '--out': options.out = value(); break;
+      case '--compare': options.compare = value(); break;
+      case '--max-diffs': options.maxDiffs = parseInt(value(), 10); break;
+      default: throw new Error(`Unknown option: ${arg}`);
+    }
+  }
+
+  if (options.record && options.extractor !== 'llm') {
+    throw new Error('--record only applies to --extractor llm');
+  }
+  return options;
+}
+
+async function main(): Promise<void> {
+  const options = parseArgs(process.argv.slice(2));
+  const dataset = JSON.parse(fs.readFileSync(options.dataset, 'utf8')) as IntentEvalDataset;
+
+  let cases = dataset.cases;
+  if (options.tag) cases = cases.filter((c) => c.tags?.includes(options.tag!));
+  if (options.limit) cases = cases.slice(0, options.limit);
+  const selected: IntentEvalDataset = { ...dataset, cases };
+
+  let report: IntentEvalReport;
+  const replayErrors: string[] = [];
+
+  if (options.extractor === 'rules') {
+    report = await evaluateIntents(selected, 'rules', rulesExtractor);
+  } else {
+    const mode = options.record ? 'record' : 'replay';
+    const llm = createLlmExtractor(mode, options.recording);
+    report = await evaluateIntents(selected, 'llm', llm.extract, `llm (${mode})`);
+
+    if (mode === 'record') {
+      fs.mkdirSync(path.dirname(options.recording), { recursive: true });
+      llm.save();
+      console.log(`Recorded responses for ${cases.length} cases to ${options.recording}`);
+    }
+    // A replay that isn't scoring the current prompt and schema would report the wrong numbers
+    if (llm.missing.length > 0) {
+      replayErrors.push(`No recorded response for ${llm.missing.length} cases: ${llm.missing.join(', ')}`);
+    }
+    if (llm.stale.length > 0) {
+      replayErrors.push(`Prompt, schema or model changed since recording for ${llm.stale.length} cases: ${llm.stale.join(', ')}`);
+    }
+  }
+
+  console.log(formatReport(report, options.maxDiffs));
+
+  if (options.compare) {
+    const baseline = JSON.parse(fs.readFileSync(options.compare, 'utf8')) as IntentEvalReport;
+    console.log(`\n${compareReports(baseline, report)}`);
+  }
+
+  if (options.out) {
+    fs.writeFileSync(options.out, `${JSON.stringify(report, null, 2)}\n`);
+    console.log(`\nReport written to ${options.out}`);
+  }
+
+  if (replayErrors.length > 0) {
+    throw new Error(`${replayErrors.join('\n')}\nRe-record with --record (needs OPENAI_API_KEY).`);
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+  });
@@ -0,0 +1,67 @@
+/**
+ * Search Intent Schema
+ * Zod schema enforced on model output for intent extraction
+ */
+
+import { z } from 'zod/v3'; // The entry point openai/helpers/zod is typed against
+import { zodResponseFormat } from 'openai/helpers/zod';
+import { PRODUCT_TYPES } from '../config/product-taxonomy';
+import type { ProductType, SearchIntent } from '../types';
+
+const productTypes = Object.keys(PRODUCT_TYPES) as [ProductType, ...ProductType[]];
+
+/**
+ * Wire format returned by the model, validated after every extraction
+ * Structured outputs require every key, so missing values are null
+ */
+export const searchIntentSchema = z.object({
+  item: z.string().nullable().describe('Product the user wants, in their words (e.g. "hoodie", "1:43 model car")'),
+  productType: z.enum(productTypes).nullable().describe('Closest canonical product type'),
+  category: z.string().nullable().describe('clothing, headwear, collectibles or accessories'),
+  team: z.string().nullable().describe('F1 team name'),
+  driver: z.string().nullable().describe('F1 driver name'),
+  minPrice: z.number().nonnegative().nullable().describe('Minimum price, only if mentioned'),
+  maxPrice: z.number().positive().nullable().describe('Maximum price, only if mentioned'),
+  currency: z.enum(['USD', 'EUR', 'GBP']).nullable().describe('Currency of the price range'),
+  size: z.string().nullable().describe('Clothing size (e.g. "M", "XL", "kids 8-9")'),
+  colour: z.string().nullable().describe('Requested colour'),
+  season: z.number().int().min(1950).max(2100).nullable().describe('Season or year of the merchandise'),
+  era: z.enum(['current', 'vintage']).nullable().describe('vintage for retro, vintage or past-decade ("1990s") requests without a single season'),
+  condition: z.enum(['new', 'used']).nullable().describe('Only if the user asks for new or used/pre-owned'),
+  excludedTeams: z.array(z.string()).describe('Teams the user does not want'),
+  excludedDrivers: z.array(z.string()).describe('Drivers the user does not want'),
+  excludedProductTypes: z.array(z.enum(productTypes)).describe('Product types the user does not want'),
+  excludedTerms: z.array(z.string()).describe('Other words the user does not want in results'),
+});
+
+/**
+ * Cross-field rules that structured outputs cannot express
+ */
+export const validatedSearchIntentSchema = searchIntentSchema.refine(
+  (intent) => intent.minPrice === null || intent.maxPrice === null || intent.minPrice <= intent.maxPrice,
+  { message: 'minPrice must not exceed maxPrice', path: ['minPrice'] }
+);
+
+export type SearchIntentOutput = z.infer<typeof searchIntentSchema>;
+
+/**
+ * Structured-output response format generated from searchIntentSchema, so the model is held to the same schema
+ */
+export const searchIntentResponseFormat = zodResponseFormat(searchIntentSchema, 'search_intent');
+
+/**
+ * Convert validated model output into a SearchIntent, dropping empty fields
+ */
+export function toSearchIntent(output: SearchIntentOutput): SearchIntent {
+  const intent: SearchIntent = {};
+
+  (Object.keys(output) as (keyof SearchIntentOutput)[]).forEach((key) => {
+    const value = output[key];
+    if (value === null || value === '' || (Array.isArray(value) && value.length === 0)) {
+      return;
+    }
+    (intent as Record<string, unknown>)[key] = value;
+  });
+
+  return intent;
+}
@@ -0,0 +1,29 @@
+/**
+ * AI Adapter
+ * Has OpenAI read products out of the rendered search page, for stores without usable selectors
+ */
+
+import { AIScraperService } from '../services/ai-scraper.service';
+import { checkReachable } from './common';
+import type { BrowserSession, Product, ScraperAdapter, ScraperHealth, ScraperTarget } from '../types';
+
+export class AIAdapter implements ScraperAdapter {
+  readonly id: string = 'ai';
+  readonly strategy = 'ai' as const;
+  private scraper: AIScraperService | null = null;
+
+  async search(target: ScraperTarget, query: string, session?: BrowserSession): Promise<Product[]> {
+    // Created on first use so the OpenAI client only exists when a target needs it
+    this.scraper = this.scraper || new AIScraperService();
+
+    const result = await this.scraper.scrapeTargetWithAI(target, query, session);
+    if (!result.success) {
+      throw new Error(result.error || `AI scrape failed for ${target.name}`);
+    }
+    return result.products;
+  }
+
+  healthCheck(target: ScraperTarget): Promise<ScraperHealth> {
+    return checkReachable(target.baseUrl, target.timeout);
+  }
+}
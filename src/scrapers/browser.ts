@@ -0,0 +1,241 @@
+/**
+ * Browser Pool
+ * One headless Chromium shared by every browser-based scraper. Each search gets its own incognito
+ * context (a session) with a pool of reusable pages; open pages across all searches are capped at
+ * config.scraper.maxConcurrent, and the browser closes once no session has used it for a while
+ */
+
+import puppeteer, { Browser, BrowserContext, Page } from 'puppeteer-core';
+import chromium from '@sparticuz/chromium';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+import type { BrowserSession } from '../types';
+
+export interface BrowserPoolStats {
+  running: boolean;
+  sessions: number;
+  activePages: number;
+  queued: number;
+}
+
+/**
+ * An incognito context whose pages are reused between scrapes, so one search's cookies and storage
+ * never reach another's
+ */
+class PooledBrowserSession implements BrowserSession {
+  private context: Promise<BrowserContext> | null = null;
+  private idlePages: Page[] = [];
+  private closed = false;
+
+  constructor(private pool: BrowserPool) {}
+
+  async withPage<T>(fn: (page: Page) => Promise<T>): Promise<T> {
+    if (this.closed) throw new Error('Browser session is closed');
+
+    await this.pool.acquireSlot();
+    let page: Page | null = null;
+    try {
+      page = await this.takePage();
+      const result = await fn(page);
+      await this.returnPage(page);
+      return result;
+    } catch (error) {
+      // A page that failed mid-scrape may be left in any state, so it isn't reused
+      if (page) await page.close().catch(() => {});
+      throw error;
+    } finally {
+      this.pool.releaseSlot();
+    }
+  }
+
+  async close(): Promise<void> {
+    if (this.closed) return;
+    this.closed = true;
+    this.idlePages = [];
+
+    const context = await this.context?.catch(() => null);
+    if (context) await context.close().catch(() => {});
+    this.pool.releaseSession();
+  }
+
+  private async takePage(): Promise<Page> {
+    const idle = this.idlePages.pop();
+    if (idle && !idle.isClosed()) return idle;
+
+    return (await this.getContext()).newPage();
+  }
+
+  /**
+   * Blank the page and keep it for the session's next scrape
+   */
+  private async returnPage(page: Page): Promise<void> {
+    if (this.closed || this.idlePages.length >= config.scraper.maxIdlePages) {
+      await page.close().catch(() => {});
+      return;
+    }
+
+    await page.goto('about:blank').catch(() => {});
+    this.idlePages.push(page);
+  }
+
+  /**
+   * The session's context, created on first use and again if the browser was relaunched since
+   */
+  private async getContext(): Promise<BrowserContext> {
+    const context = this.context;
+    if (context) {
+      const current = await context.catch(() => null);
+      if (current && current.browser().connected) return current;
+      // Another scrape in this session already replaced it
+      if (this.context !== context) return this.getContext();
+    }
+
+    this.idlePages = [];
+    this.context = this.pool.getBrowser().then((browser) => browser.createBrowserContext());
+    return this.context;
+  }
+}
+
+class BrowserPool {
+  private browser: Promise<Browser> | null = null;
+  private sessions = 0;
+  private activePages = 0;
+  private queue: Array<() => void> = [];
+  private idleTimer: NodeJS.Timeout | null = null;
+
+  /**
+   * Start a session; the browser stays open until every session is closed and the idle timeout passes
+   */
+  openSession(): BrowserSession {
+    this.sessions++;
+    this.cancelIdleShutdown();
+    return new PooledBrowserSession(this);
+  }
+
+  /**
+   * Run one scrape in a session of its own
+   */
+  async withPage<T>(fn: (page: Page) => Promise<T>): Promise<T> {
+    const session = this.openSession();
+    try {
+      return await session.withPage(fn);
+    } finally {
+      await session.close();
+    }
+  }
+
+  /**
+   * Launch the browser on first use; sessions starting together share the same launch
+   */
+  getBrowser(): Promise<Browser> {
+    if (!this.browser) {
+      const launch = this.launch();
+      this.browser = launch;
+      launch
+        .then((browser) => browser.on('disconnected', () => {
+          if (this.browser === launch) this.browser = null;
+        }))
+        .catch(() => {
+          if (this.browser === launch) this.browser = null;
+        });
+    }
+    return this.browser;
+  }
+
+  /**
+   * Wait for a free page slot when config.scraper.maxConcurrent pages are already open
+   */
+  acquireSlot(): Promise<void> {
+    if (this.activePages < config.scraper.maxConcurrent) {
+      this.activePages++;
+      return Promise.resolve();
+    }
+    return new Promise((resolve) => this.queue.push(resolve));
+  }
+
+  /**
+   * Hand the slot straight to the next waiting scrape, if any
+   */
+  releaseSlot(): void {
+    const next = this.queue.shift();
+    if (next) {
+      next();
+    } else {
+      this.activePages--;
+    }
+  }
+
+  releaseSession(): void {
+    this.sessions = Math.max(0, this.sessions - 1);
+    if (this.sessions === 0) this.scheduleIdleShutdown();
+  }
+
+  getStats(): BrowserPoolStats {
+    return {
+      running: this.browser !== null,
+      sessions: this.sessions,
+      activePages: this.activePages,
+      queued: this.queue.length,
+    };
+  }
+
+  /**
+   * Close Puppeteer browser, whether or not sessions are still open
+   */
+  async close(): Promise<void> {
+    this.cancelIdleShutdown();
+    if (this.browser) {
+      const browser = await this.browser.catch(() => null);
+      this.browser = null;
+      if (browser) {
+        logger.info('Closing Puppeteer browser');
+        await browser.close();
+      }
+    }
+  }
+
+  private scheduleIdleShutdown(): void {
+    this.cancelIdleShutdown();
+    if (!this.browser) return;
+
+    this.idleTimer = setTimeout(() => {
+      this.idleTimer = null;
+      if (this.sessions === 0) {
+        this.close().catch((error) => logger.warn('Failed to close idle browser', { error }));
+      }
+    }, config.scraper.browserIdleMs);
+    // An idle browser shouldn't keep the process alive
+    this.idleTimer.unref();
+  }
+
+  private cancelIdleShutdown(): void {
+    if (this.idleTimer) {
+      clearTimeout(this.idleTimer);
+      this.idleTimer = null;
+    }
+  }
+
+  private async launch(): Promise<Browser> {
+    logger.info('Initializing Puppeteer browser');
+    const executablePath = process.env.NODE_ENV === 'production'
+      ? await chromium.executablePath()
+      : undefined;
+
+    return puppeteer.launch({
+      headless: true,
+      executablePath,
+      args: [
+        ...chromium.args,
+        '--no-sandbox',
+        '--disable-setuid-sandbox',
+        '--disable-dev-shm-usage',
+        '--disable-accelerated-2d-canvas',
+        '--no-first-run',
+        '--no-zygote',
+        '--disable-gpu',
+      ],
+    });
+  }
+}
+
+export const browserPool = new BrowserPool();
@@ -0,0 +1,103 @@
+/**
+ * Cheerio Adapter
+ * Scrapes static HTML search pages from their structured data, else with the target's CSS selectors
+ */
+
+import * as cheerio from 'cheerio';
+import axios from 'axios';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+import { buildSearchUrl, checkReachable, toProduct } from './common';
+import { paginationEngine, productKey } from './pagination';
+import { structuredDataExtractor } from './structured-data';
+import type { Product, ScraperAdapter, ScraperHealth, ScraperTarget } from '../types';
+
+export class CheerioAdapter implements ScraperAdapter {
+  readonly id: string = 'cheerio';
+  readonly strategy = 'cheerio' as const;
+
+  async search(target: ScraperTarget, query: string): Promise<Product[]> {
+    const startTime = Date.now();
+
+    try {
+      const searchUrl = buildSearchUrl(target, query);
+      const paginated = paginationEngine.uses(target, this.id, ['page-param']);
+
+      const products = await paginationEngine.collect(
+        target,
+        async (pageIndex) => pageIndex > 0 && !paginated
+          ? null
+          : this.scrapePage(target, paginationEngine.getPageUrl(searchUrl, target.pagination, pageIndex)),
+        productKey
+      );
+
+      const processingTime = Date.now() - startTime;
+      logger.info(`Cheerio scrape completed for ${target.name}`, {
+        productsFound: products.length,
+        processingTime,
+      });
+
+      return paginated ? products : products.slice(0, 10); // Limit to 10 products per target
+    } catch (error) {
+      logger.error(`Cheerio scrape failed for ${target.name}`, error);
+      throw error;
+    }
+  }
+
+  private async scrapePage(target: ScraperTarget, url: string): Promise<Product[]> {
+    logger.debug(`Scraping with Cheerio: ${url}`);
+
+    const response = await axios.get(url, {
+      headers: {
+        'User-Agent': config.scraper.userAgent,
+        'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
+        'Accept-Language': 'en-US,en;q=0.5',
+      },
+      timeout: target.timeout,
+    });
+
+    const $ = cheerio.load(response.data);
+
+    // Structured data states price and availability exactly; selectors are the fallback
+    const structured = structuredDataExtractor.extract($, target, url);
+    if (structured.length > 0) return structured;
+
+    const products: Product[] = [];
+
+    $(target.selectors.productContainer).each((index, element) => {
+      try {
+        const $el = $(element);
+        const name = $el.find(target.selectors.name).first().text().trim();
+        const priceText = $el.find(target.selectors.price).first().text().trim();
+        const imageUrl = $el.find(target.selectors.image).first().attr('src') ||
+                        $el.find(target.selectors.image).first().attr('data-src') || '';
+        const url = $el.find(target.selectors.link).first().attr('href') || '';
+        const availabilityText = target.selectors.availability
+          ? $el.find(target.selectors.availability).first().text().trim()
+          : 'In Stock';
+        const description = target.selectors.description
+          ? $el.find(target.selectors.description).first().text().trim()
+          : '';
+
+        if (name && priceText) {
+          products.push(toProduct({
+            name,
+            price: priceText,
+            imageUrl,
+            url,
+            availability: availabilityText,
+            description,
+          }, target, 'selectors'));
+        }
+      } catch (error) {
+        logger.error('Error parsing product element', error);
+      }
+    });
+
+    return products;
+  }
+
+  healthCheck(target: ScraperTarget): Promise<ScraperHealth> {
+    return checkReachable(target.baseUrl, target.timeout);
+  }
+}
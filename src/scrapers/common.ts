@@ -0,0 +1,91 @@
+/**
+ * Scraper Adapter Helpers
+ * Shared by the adapters to turn what a store returns into Products
+ */
+
+import axios from 'axios';
+import { config } from '../config';
+import { generateId, normalizePrice, sanitizeText, makeAbsoluteUrl } from '../utils/helpers';
+import type { Product, ScraperTarget, ScraperHealth, AvailabilityStatus, ExtractionTier } from '../types';
+
+/** Product fields as read from a page or response, before normalization */
+export interface RawProduct {
+  name: string;
+  price: string;
+  imageUrl?: string;
+  url?: string;
+  availability?: string;
+  description?: string;
+}
+
+/**
+ * Determine availability status from text
+ */
+export function determineAvailability(text: string): AvailabilityStatus {
+  const lowerText = text.toLowerCase();
+
+  if (lowerText.includes('out of stock') ||
+      lowerText.includes('unavailable') ||
+      lowerText.includes('sold out')) {
+    return 'OUT_OF_STOCK';
+  }
+
+  if (lowerText.includes('limited') ||
+      lowerText.includes('few left') ||
+      lowerText.includes('low stock')) {
+    return 'LIMITED_STOCK';
+  }
+
+  return 'IN_STOCK';
+}
+
+/**
+ * Transform raw product data to Product type
+ */
+export function toProduct(raw: RawProduct, target: ScraperTarget, extractedBy: ExtractionTier): Product {
+  return {
+    id: generateId(target.id),
+    name: sanitizeText(raw.name),
+    description: raw.description ? sanitizeText(raw.description) : undefined,
+    url: makeAbsoluteUrl(raw.url || '', target.baseUrl),
+    imageUrl: raw.imageUrl ? makeAbsoluteUrl(raw.imageUrl, target.baseUrl) : undefined,
+    price: normalizePrice(raw.price),
+    availability: determineAvailability(raw.availability || 'In Stock'),
+    source: target.name,
+    scrapedAt: new Date(),
+    extractedBy,
+  };
+}
+
+export function buildSearchUrl(target: ScraperTarget, query: string): string {
+  return `${target.baseUrl}${target.searchPath}?q=${encodeURIComponent(query)}`;
+}
+
+/**
+ * Whether a page answers without an error status; stores that block scrapers answer 403
+ */
+export async function checkReachable(url: string, timeout: number): Promise<ScraperHealth> {
+  const startTime = Date.now();
+
+  try {
+    const response = await axios.get(url, {
+      headers: { 'User-Agent': config.scraper.userAgent },
+      timeout: Math.min(timeout, 10000),
+      validateStatus: () => true,
+    });
+    const healthy = response.status < 400;
+
+    return {
+      healthy,
+      latency: Date.now() - startTime,
+      status: response.status,
+      error: healthy ? undefined : `HTTP ${response.status}`,
+    };
+  } catch (error) {
+    return {
+      healthy: false,
+      latency: Date.now() - startTime,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
@@ -0,0 +1,115 @@
+/**
+ * JSON API Adapter
+ * Reads products from a store's JSON search endpoint using the target's jsonApi field paths
+ */
+
+import axios from 'axios';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+import { checkReachable, toProduct } from './common';
+import { paginationEngine, productKey } from './pagination';
+import type { JsonApiMapping, Product, ScraperAdapter, ScraperHealth, ScraperTarget } from '../types';
+
+/**
+ * Value at a dotted path ("price.current"), or undefined when any step is missing
+ */
+function getPath(value: unknown, path: string): unknown {
+  return path.split('.').reduce<unknown>(
+    (current, key) => (current !== null && typeof current === 'object' ? (current as Record<string, unknown>)[key] : undefined),
+    value
+  );
+}
+
+/**
+ * Text of a scalar at a dotted path; objects, arrays and missing values give undefined
+ */
+function getText(value: unknown, path: string): string | undefined {
+  const found = getPath(value, path);
+  return ['string', 'number', 'boolean'].includes(typeof found) ? String(found) : undefined;
+}
+
+export class JsonApiAdapter implements ScraperAdapter {
+  readonly id: string = 'json-api';
+  readonly strategy = 'json-api' as const;
+
+  async search(target: ScraperTarget, query: string): Promise<Product[]> {
+    const mapping = this.getMapping(target);
+    const { pagination } = target;
+    const startTime = Date.now();
+    const searchUrl = this.buildUrl(target, mapping, query);
+    const paginated = paginationEngine.uses(target, this.id, ['page-param', 'cursor']);
+    let cursor: string | undefined;
+
+    const products = await paginationEngine.collect(target, async (pageIndex) => {
+      let url = searchUrl;
+      if (pageIndex > 0) {
+        if (!paginated || !pagination) return null;
+        if (pagination.strategy === 'cursor') {
+          if (!cursor) return null;
+          url = paginationEngine.getCursorUrl(searchUrl, pagination, cursor);
+        } else {
+          url = paginationEngine.getPageUrl(searchUrl, pagination, pageIndex);
+        }
+      }
+
+      const data = await this.fetchPage(target, url);
+      cursor = (pagination?.cursorPath && getText(data, pagination.cursorPath)) || undefined;
+      return this.readProducts(target, mapping, data);
+    }, productKey);
+
+    logger.info(`JSON API scrape completed for ${target.name}`, {
+      productsFound: products.length,
+      processingTime: Date.now() - startTime,
+    });
+
+    return products;
+  }
+
+  healthCheck(target: ScraperTarget): Promise<ScraperHealth> {
+    return checkReachable(this.buildUrl(target, this.getMapping(target), 'f1'), target.timeout);
+  }
+
+  private async fetchPage(target: ScraperTarget, url: string): Promise<unknown> {
+    logger.debug(`Scraping JSON API: ${url}`);
+
+    const response = await axios.get<unknown>(url, {
+      headers: {
+        'User-Agent': config.scraper.userAgent,
+        'Accept': 'application/json',
+      },
+      timeout: target.timeout,
+    });
+    return response.data;
+  }
+
+  private readProducts(target: ScraperTarget, mapping: JsonApiMapping, data: unknown): Product[] {
+    const items = getPath(data, mapping.itemsPath);
+    if (!Array.isArray(items)) {
+      throw new Error(`No product list at "${mapping.itemsPath}" in ${target.name} response`);
+    }
+
+    const { fields } = mapping;
+    return items
+      .map((item: unknown) => ({
+        name: getText(item, fields.name) ?? '',
+        price: getText(item, fields.price) ?? '',
+        url: getText(item, fields.url) ?? '',
+        imageUrl: fields.imageUrl ? getText(item, fields.imageUrl) : undefined,
+        availability: fields.availability ? getText(item, fields.availability) ?? '' : undefined,
+        description: fields.description ? getText(item, fields.description) : undefined,
+      }))
+      .filter((raw) => raw.name && raw.price)
+      .map((raw) => toProduct(raw, target, 'api'));
+  }
+
+  private getMapping(target: ScraperTarget): JsonApiMapping {
+    if (!target.jsonApi) {
+      throw new Error(`${target.name} has no jsonApi mapping`);
+    }
+    return target.jsonApi;
+  }
+
+  private buildUrl(target: ScraperTarget, mapping: JsonApiMapping, query: string): string {
+    return `${target.baseUrl}${mapping.searchPath.replace('{query}', encodeURIComponent(query))}`;
+  }
+}
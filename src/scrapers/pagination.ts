@@ -0,0 +1,167 @@
+/**
+ * Pagination Engine
+ * Runs a target's declared pagination strategy for every adapter: the adapter loads page N (a new
+ * URL, a request with a cursor, or the same browser page after a click or scroll) and the engine
+ * decides when to stop
+ */
+
+import type { Page } from 'puppeteer-core';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+import { sleep } from '../utils/helpers';
+import type { PaginationConfig, PaginationStrategy, ScraperTarget } from '../types';
+
+/** Items on a page (0 is the first), or null when there is no such page */
+export type PageLoader<T> = (pageIndex: number) => Promise<T[] | null>;
+
+/** Strategies that reveal more products on the same browser page */
+const IN_PAGE_STRATEGIES: PaginationStrategy[] = ['load-more', 'infinite-scroll'];
+
+const DEFAULT_LOAD_MORE_BUTTON = '.load-more, .show-more, [data-testid="load-more"], button[class*="load-more"]';
+const DEFAULT_LOAD_MORE_TEXT = ['load more', 'show more'];
+
+/**
+ * Key identifying a product across pages, so products a page repeats aren't counted as new
+ */
+export function productKey(product: { name: string; url?: string }): string {
+  return product.url || product.name;
+}
+
+class PaginationEngine {
+  /**
+   * Load pages until the limits are reached, a page is missing or a page adds no new items
+   * A failure on a later page keeps the items already collected; a failure on the first page is thrown
+   */
+  async collect<T>(target: ScraperTarget, loadPage: PageLoader<T>, getKey: (item: T) => string): Promise<T[]> {
+    const { maxPages, maxItems } = this.getLimits(target.pagination);
+    const items: T[] = [];
+    const seen = new Set<string>();
+    let pagesRead = 0;
+
+    for (let pageIndex = 0; pageIndex <= maxPages && items.length < maxItems; pageIndex++) {
+      let page: T[] | null;
+      try {
+        page = await loadPage(pageIndex);
+      } catch (error) {
+        if (pageIndex === 0) throw error;
+        logger.debug(`Stopped paginating ${target.name} after a failed page`, {
+          pageIndex,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+        break;
+      }
+      if (!page) break;
+
+      pagesRead++;
+      const fresh = page.filter((item) => {
+        const key = getKey(item);
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      });
+      if (pageIndex > 0 && fresh.length === 0) break;
+      items.push(...fresh);
+    }
+
+    if (target.pagination) {
+      logger.debug(`Paginated ${target.name}`, {
+        strategy: target.pagination.strategy,
+        pagesRead,
+        items: items.length,
+      });
+    }
+
+    return items.slice(0, maxItems);
+  }
+
+  /**
+   * Whether the target paginates with the given strategies; logs when it declares one the adapter can't run
+   */
+  uses(target: ScraperTarget, adapterId: string, supported: PaginationStrategy[]): boolean {
+    const strategy = target.pagination?.strategy;
+    if (!strategy) return false;
+    if (supported.includes(strategy)) return true;
+
+    logger.warn(`${adapterId} adapter can't paginate ${target.name} with ${strategy}, reading the first page only`);
+    return false;
+  }
+
+  isInPage(target: ScraperTarget): boolean {
+    return Boolean(target.pagination && IN_PAGE_STRATEGIES.includes(target.pagination.strategy));
+  }
+
+  /**
+   * URL of a later page for the page-param strategy ("?q=cap" -> "?q=cap&page=2")
+   */
+  getPageUrl(url: string, pagination: PaginationConfig | undefined, pageIndex: number): string {
+    if (pageIndex === 0 || !pagination?.param) return url;
+
+    const pageUrl = new URL(url);
+    pageUrl.searchParams.set(pagination.param, String((pagination.firstPage ?? 1) + pageIndex));
+    return pageUrl.toString();
+  }
+
+  /**
+   * URL of the page after a cursor for the cursor strategy ("?q=cap" -> "?q=cap&after=eyJpZCI6")
+   */
+  getCursorUrl(url: string, pagination: PaginationConfig, cursor: string): string {
+    if (!pagination.cursorParam) return url;
+
+    const pageUrl = new URL(url);
+    pageUrl.searchParams.set(pagination.cursorParam, cursor);
+    return pageUrl.toString();
+  }
+
+  /**
+   * Reveal the next batch of products on a browser page by clicking load-more or scrolling to the bottom
+   * Buttons are matched by text only when the target configures no selector, so a configured target
+   * never clicks an unrelated "show more" link such as a description expander
+   * Returns false when there is no load-more button left to click
+   */
+  async advance(page: Page, pagination: PaginationConfig): Promise<boolean> {
+    let advanced: boolean;
+
+    if (pagination.strategy === 'load-more') {
+      const selectors = (pagination.button || DEFAULT_LOAD_MORE_BUTTON).split(',').map((selector) => selector.trim());
+      const texts = pagination.button ? [] : (pagination.buttonText || DEFAULT_LOAD_MORE_TEXT).map((text) => text.toLowerCase());
+
+      advanced = await page.evaluate((selectors: string[], texts: string[]) => {
+        for (const selector of selectors) {
+          try {
+            const button = document.querySelector(selector) as HTMLElement | null;
+            if (button && button.offsetParent !== null) {
+              button.click();
+              return true;
+            }
+          } catch (e) {
+            // Invalid selector, try the next one
+          }
+        }
+
+        if (texts.length === 0) return false;
+        const byText = Array.from(document.querySelectorAll('button, a')).find((element) => {
+          const text = (element.textContent || '').trim().toLowerCase();
+          return texts.some((candidate) => text.includes(candidate));
+        }) as HTMLElement | undefined;
+        byText?.click();
+        return Boolean(byText);
+      }, selectors, texts);
+    } else {
+      await page.evaluate(() => window.scrollTo(0, document.body.scrollHeight));
+      advanced = true;
+    }
+
+    if (advanced) await sleep(config.scraper.pagination.waitMs);
+    return advanced;
+  }
+
+  private getLimits(pagination?: PaginationConfig): { maxPages: number; maxItems: number } {
+    if (!pagination) return { maxPages: 0, maxItems: Infinity };
+    return {
+      maxPages: pagination.maxPages ?? config.scraper.pagination.maxPages,
+      maxItems: pagination.maxItems ?? config.scraper.pagination.maxItems,
+    };
+  }
+}
+
+export const paginationEngine = new PaginationEngine();
@@ -0,0 +1,138 @@
+/**
+ * Puppeteer Adapter
+ * Scrapes JavaScript-rendered search pages with a page from the browser pool
+ */
+
+import type { Page } from 'puppeteer-core';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+import { sleep } from '../utils/helpers';
+import { browserPool } from './browser';
+import { buildSearchUrl, checkReachable, toProduct, RawProduct } from './common';
+import { paginationEngine, productKey } from './pagination';
+import { structuredDataExtractor } from './structured-data';
+import type { BrowserSession, Product, ScraperAdapter, ScraperHealth, ScraperTarget } from '../types';
+
+export class PuppeteerAdapter implements ScraperAdapter {
+  readonly id: string = 'puppeteer';
+  readonly strategy = 'puppeteer' as const;
+
+  async search(target: ScraperTarget, query: string, session?: BrowserSession): Promise<Product[]> {
+    const startTime = Date.now();
+
+    try {
+      const products = await (session || browserPool).withPage(async (page) => {
+        // Set user agent and viewport
+        await page.setUserAgent(config.scraper.userAgent);
+        await page.setViewport({ width: 1920, height: 1080 });
+
+        const searchUrl = buildSearchUrl(target, query);
+        const paginated = paginationEngine.uses(target, this.id, ['page-param', 'load-more', 'infinite-scroll']);
+
+        return paginationEngine.collect(target, async (pageIndex) => {
+          if (pageIndex === 0) {
+            await this.open(page, target, searchUrl);
+          } else if (!paginated || !target.pagination) {
+            return null;
+          } else if (paginationEngine.isInPage(target)) {
+            if (!(await paginationEngine.advance(page, target.pagination))) return null;
+          } else {
+            await this.open(page, target, paginationEngine.getPageUrl(searchUrl, target.pagination, pageIndex));
+          }
+          return this.readProducts(page, target);
+        }, productKey);
+      });
+
+      const processingTime = Date.now() - startTime;
+      logger.info(`Puppeteer scrape completed for ${target.name}`, {
+        productsFound: products.length,
+        processingTime,
+      });
+
+      return products;
+    } catch (error) {
+      logger.error(`Puppeteer scrape failed for ${target.name}`, error);
+      throw error;
+    }
+  }
+
+  healthCheck(target: ScraperTarget): Promise<ScraperHealth> {
+    return checkReachable(target.baseUrl, target.timeout);
+  }
+
+  /**
+   * Navigate to a results page and wait for its products to render
+   */
+  private async open(page: Page, target: ScraperTarget, url: string): Promise<void> {
+    logger.debug(`Scraping with Puppeteer: ${url}`);
+
+    await page.goto(url, {
+      waitUntil: 'domcontentloaded',
+      timeout: target.timeout,
+    });
+
+    // Wait for delay
+    await sleep(target.delay);
+
+    // Wait for product elements to load
+    try {
+      await page.waitForSelector(target.selectors.productContainer, {
+        timeout: 10000
+      });
+      logger.debug(`Product elements found for ${target.name}`);
+    } catch (e) {
+      logger.debug(`No product elements found for ${target.name}, continuing anyway...`);
+    }
+  }
+
+  /**
+   * Products from the rendered page's structured data, else from its product elements
+   */
+  private async readProducts(page: Page, target: ScraperTarget): Promise<Product[]> {
+    const structured = structuredDataExtractor.extract(await page.content(), target, page.url());
+    if (structured.length > 0) return structured;
+
+    const rawProducts = await this.extract(page, target);
+    return rawProducts.map((raw) => toProduct(raw, target, 'selectors'));
+  }
+
+  /**
+   * Read each product element with the target's selectors
+   */
+  private extract(page: Page, target: ScraperTarget): Promise<RawProduct[]> {
+    return page.evaluate((selectors) => {
+      const elements = document.querySelectorAll(selectors.productContainer);
+      const results: any[] = [];
+
+      elements.forEach((element) => {
+        try {
+          const nameEl = element.querySelector(selectors.name);
+          const priceEl = element.querySelector(selectors.price);
+          const imageEl = element.querySelector(selectors.image) as HTMLImageElement;
+          const linkEl = element.querySelector(selectors.link) as HTMLAnchorElement;
+          const availabilityEl = selectors.availability
+            ? element.querySelector(selectors.availability)
+            : null;
+          const descEl = selectors.description
+            ? element.querySelector(selectors.description)
+            : null;
+
+          if (nameEl && priceEl) {
+            results.push({
+              name: nameEl.textContent?.trim() || '',
+              price: priceEl.textContent?.trim() || '',
+              imageUrl: imageEl?.src || imageEl?.dataset?.src || '',
+              url: linkEl?.href || '',
+              availability: availabilityEl?.textContent?.trim() || 'In Stock',
+              description: descEl?.textContent?.trim() || '',
+            });
+          }
+        } catch (error) {
+          console.error('Error parsing product element:', error);
+        }
+      });
+
+      return results;
+    }, target.selectors);
+  }
+}
@@ -0,0 +1,56 @@
+/**
+ * Scraper Registry
+ * Adapters registered by id; each generic strategy (cheerio, puppeteer, json-api, shopify, ai) is registered
+ * under its own name, so a target can name a store-specific adapter or just the strategy it needs
+ */
+
+import { logger } from '../utils/logger';
+import { CheerioAdapter } from './cheerio.adapter';
+import { PuppeteerAdapter } from './puppeteer.adapter';
+import { JsonApiAdapter } from './json-api.adapter';
+import { AIAdapter } from './ai.adapter';
+import { ShopifyAdapter } from './shopify.adapter';
+import type { ScraperAdapter, ScraperTarget } from '../types';
+
+class ScraperRegistry {
+  private adapters: Map<string, ScraperAdapter>;
+
+  constructor() {
+    this.adapters = new Map();
+  }
+
+  /**
+   * Add an adapter, replacing any registered under the same id
+   */
+  register(adapter: ScraperAdapter): void {
+    if (this.adapters.has(adapter.id)) {
+      logger.warn(`Replacing scraper adapter ${adapter.id}`);
+    }
+    this.adapters.set(adapter.id, adapter);
+  }
+
+  get(id: string): ScraperAdapter | null {
+    return this.adapters.get(id) || null;
+  }
+
+  /**
+   * The target's adapter: the id or strategy it names, else puppeteer or cheerio from requiresJavaScript
+   * Returns null when the named adapter isn't registered
+   */
+  resolve(target: ScraperTarget): ScraperAdapter | null {
+    const name = target.adapter || (target.requiresJavaScript ? 'puppeteer' : 'cheerio');
+    return this.get(name);
+  }
+
+  list(): ScraperAdapter[] {
+    return Array.from(this.adapters.values());
+  }
+}
+
+export const scraperRegistry = new ScraperRegistry();
+
+scraperRegistry.register(new CheerioAdapter());
+scraperRegistry.register(new PuppeteerAdapter());
+scraperRegistry.register(new JsonApiAdapter());
+scraperRegistry.register(new ShopifyAdapter());
+scraperRegistry.register(new AIAdapter());
@@ -0,0 +1,257 @@
+/**
+ * Shopify Adapter
+ * Searches any Shopify storefront over plain HTTP with its predictive search endpoint
+ * ("/search/suggest.json") and reads full products from the product JSON endpoint ("/products/{handle}.js")
+ */
+
+import axios from 'axios';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+import { createPrice, generateId, makeAbsoluteUrl, sanitizeText } from '../utils/helpers';
+import { checkReachable } from './common';
+import type { AvailabilityStatus, Product, ProductVariant, ScraperAdapter, ScraperHealth, ScraperTarget } from '../types';
+
+/** An image as either endpoint gives it: a URL, { url } in predictive search or { src } in product JSON */
+type ShopifyImage = string | { url?: string; src?: string } | null;
+
+/** A variant as either endpoint returns it, priced in decimal strings or in cents */
+interface ShopifyVariantResponse {
+  id: number | string;
+  title?: string;
+  price?: string | number;
+  compare_at_price?: string | number | null;
+  available?: boolean;
+  featured_image?: ShopifyImage;
+  image?: ShopifyImage;
+}
+
+/** A product in a "/search/suggest.json" response */
+interface PredictiveSearchProduct {
+  title: string;
+  handle: string;
+  body?: string;
+  vendor?: string;
+  price?: string;
+  compare_at_price_min?: string;
+  available?: boolean;
+  featured_image?: ShopifyImage;
+  image?: ShopifyImage;
+  variants?: ShopifyVariantResponse[];
+}
+
+interface PredictiveSearchResponse {
+  resources?: { results?: { products?: PredictiveSearchProduct[] } };
+}
+
+/** A "/products/{handle}.js" response */
+interface ProductJsonResponse {
+  title: string;
+  handle: string;
+  description?: string;
+  vendor?: string;
+  price?: number;
+  compare_at_price?: number | null;
+  available?: boolean;
+  featured_image?: ShopifyImage;
+  images?: ShopifyImage[];
+  variants?: ShopifyVariantResponse[];
+}
+
+/** A variant from either endpoint, with prices in currency units */
+interface ShopifyVariant {
+  id: string;
+  title: string;
+  price: number;
+  compareAtPrice: number;
+  available: boolean;
+  image?: string;
+}
+
+/** A product from either endpoint, with prices in currency units */
+interface ShopifyListing {
+  title: string;
+  handle: string;
+  description?: string;
+  vendor?: string;
+  price: number;
+  compareAtPrice: number;
+  available: boolean;
+  images: string[];
+  variants: ShopifyVariant[];
+}
+
+/**
+ * Predictive search gives decimal strings ("45.00"), product JSON gives integer cents (4500)
+ */
+function toAmount(value: unknown, inCents: boolean): number {
+  const amount = typeof value === 'number' ? value : parseFloat(String(value ?? ''));
+  if (!Number.isFinite(amount)) return 0;
+  return inCents ? amount / 100 : amount;
+}
+
+/**
+ * Image URL from a string or an image object ({ url } in predictive search, { src } in product JSON)
+ */
+function toImageUrl(image: ShopifyImage | undefined): string | undefined {
+  if (!image) return undefined;
+  return typeof image === 'string' ? image : image.url || image.src || undefined;
+}
+
+function toVariants(variants: ShopifyVariantResponse[] | undefined, inCents: boolean): ShopifyVariant[] {
+  return (variants || []).map((variant) => ({
+    id: String(variant.id),
+    title: variant.title || '',
+    price: toAmount(variant.price, inCents),
+    compareAtPrice: toAmount(variant.compare_at_price, inCents),
+    available: variant.available !== false,
+    image: toImageUrl(variant.featured_image) || toImageUrl(variant.image),
+  }));
+}
+
+export class ShopifyAdapter implements ScraperAdapter {
+  readonly id: string = 'shopify';
+  readonly strategy = 'shopify' as const;
+
+  async search(target: ScraperTarget, query: string): Promise<Product[]> {
+    const startTime = Date.now();
+    const searchUrl = this.buildSearchUrl(target, query);
+    logger.debug(`Scraping Shopify predictive search: ${searchUrl}`);
+
+    const response = await axios.get<PredictiveSearchResponse>(searchUrl, {
+      headers: { 'User-Agent': config.scraper.userAgent, 'Accept': 'application/json' },
+      timeout: target.timeout,
+    });
+
+    const results = response.data?.resources?.results?.products;
+    if (!Array.isArray(results)) {
+      throw new Error(`Unexpected Shopify predictive search response from ${target.name}`);
+    }
+
+    const products = results
+      .filter((result) => result?.title && result.handle)
+      .map((result) => this.toProduct(this.fromPredictiveSearch(result), target));
+
+    logger.info(`Shopify scrape completed for ${target.name}`, {
+      productsFound: products.length,
+      processingTime: Date.now() - startTime,
+    });
+
+    return products;
+  }
+
+  /**
+   * Every variant and image of a product page, from its product JSON
+   */
+  async getProductDetails(target: ScraperTarget, url: string): Promise<Product | null> {
+    const handle = url.match(/\/products\/([^/?#]+)/)?.[1];
+    if (!handle) return null;
+
+    try {
+      const response = await axios.get<ProductJsonResponse>(`${target.baseUrl}/products/${handle}.js`, {
+        headers: { 'User-Agent': config.scraper.userAgent, 'Accept': 'application/json' },
+        timeout: target.timeout,
+      });
+      return response.data?.title ? this.toProduct(this.fromProductJson(response.data), target) : null;
+    } catch (error) {
+      logger.warn(`Product details unavailable from ${target.name}`, {
+        url,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return null;
+    }
+  }
+
+  healthCheck(target: ScraperTarget): Promise<ScraperHealth> {
+    return checkReachable(this.buildSearchUrl(target, 'f1'), target.timeout);
+  }
+
+  private buildSearchUrl(target: ScraperTarget, query: string): string {
+    const params = new URLSearchParams({
+      q: query,
+      'resources[type]': 'product',
+      'resources[limit]': String(config.scraper.shopifyProductLimit),
+      'resources[options][unavailable_products]': 'last',
+    });
+    return `${target.baseUrl}/search/suggest.json?${params.toString()}`;
+  }
+
+  private fromPredictiveSearch(result: PredictiveSearchProduct): ShopifyListing {
+    const image = toImageUrl(result.featured_image) || toImageUrl(result.image);
+    return {
+      title: result.title,
+      handle: result.handle,
+      description: result.body,
+      vendor: result.vendor,
+      price: toAmount(result.price, false),
+      compareAtPrice: toAmount(result.compare_at_price_min, false),
+      available: result.available !== false,
+      images: image ? [image] : [],
+      variants: toVariants(result.variants, false),
+    };
+  }
+
+  private fromProductJson(product: ProductJsonResponse): ShopifyListing {
+    const images = (product.images || [])
+      .map(toImageUrl)
+      .filter((image): image is string => Boolean(image));
+    const featured = toImageUrl(product.featured_image);
+    return {
+      title: product.title,
+      handle: product.handle,
+      description: product.description,
+      vendor: product.vendor,
+      price: toAmount(product.price, true),
+      compareAtPrice: toAmount(product.compare_at_price, true),
+      available: product.available !== false,
+      images: featured ? [featured, ...images.filter((image) => image !== featured)] : images,
+      variants: toVariants(product.variants, true),
+    };
+  }
+
+  /**
+   * The product is priced at its cheapest available variant, and is on sale when that variant is
+   */
+  private toProduct(listing: ShopifyListing, target: ScraperTarget): Product {
+    const currency = target.currency || 'USD';
+    const inStock = listing.variants.filter((variant) => variant.available);
+    const cheapest = [...(inStock.length > 0 ? inStock : listing.variants)].sort((a, b) => a.price - b.price)[0];
+    const price = cheapest?.price || listing.price;
+    const compareAtPrice = cheapest ? cheapest.compareAtPrice : listing.compareAtPrice;
+    const images = listing.images.map((image) => makeAbsoluteUrl(image, target.baseUrl));
+
+    const variants: ProductVariant[] = listing.variants.map((variant) => ({
+      id: variant.id,
+      title: variant.title,
+      price: createPrice(variant.price, currency),
+      compareAtPrice: variant.compareAtPrice > variant.price ? createPrice(variant.compareAtPrice, currency) : undefined,
+      availability: variant.available ? 'IN_STOCK' : 'OUT_OF_STOCK',
+      imageUrl: variant.image ? makeAbsoluteUrl(variant.image, target.baseUrl) : undefined,
+    }));
+
+    return {
+      id: generateId(target.id),
+      name: sanitizeText(listing.title),
+      description: listing.description ? sanitizeText(listing.description.replace(/<[^>]+>/g, ' ')) || undefined : undefined,
+      url: `${target.baseUrl}/products/${listing.handle}`,
+      imageUrl: images[0],
+      images: images.length > 0 ? images : undefined,
+      price: createPrice(price, currency),
+      compareAtPrice: compareAtPrice > price ? createPrice(compareAtPrice, currency) : undefined,
+      brand: listing.vendor || undefined,
+      availability: this.getAvailability(listing, inStock.length),
+      variants: variants.length > 0 ? variants : undefined,
+      source: target.name,
+      scrapedAt: new Date(),
+      extractedBy: 'api',
+    };
+  }
+
+  /**
+   * Limited when only one of several variants (usually sizes) is left
+   */
+  private getAvailability(listing: ShopifyListing, variantsInStock: number): AvailabilityStatus {
+    if (!listing.available) return 'OUT_OF_STOCK';
+    if (listing.variants.length > 1 && variantsInStock === 1) return 'LIMITED_STOCK';
+    return 'IN_STOCK';
+  }
+}
@@ -0,0 +1,298 @@
+/**
+ * Structured Data Extractor
+ * Reads products from the schema.org data (JSON-LD, then microdata) and OpenGraph tags stores publish
+ * for search engines, which state price, currency and availability exactly where selectors have to guess
+ */
+
+import * as cheerio from 'cheerio';
+import { logger } from '../utils/logger';
+import { createPrice, generateId, makeAbsoluteUrl, normalizePrice, sanitizeText } from '../utils/helpers';
+import { determineAvailability } from './common';
+import type { AvailabilityStatus, Currency, ExtractionTier, Price, Product, ScraperTarget } from '../types';
+
+/** A product as structured data describes it, before normalization */
+interface StructuredProduct {
+  name?: string;
+  description?: string;
+  url?: string;
+  images: string[];
+  brand?: string;
+  price?: string | number;
+  currency?: string;
+  availability?: string;
+}
+
+type JsonLdValue = string | number;
+type JsonLdImage = string | { url?: string; contentUrl?: string };
+
+/** The schema.org Offer (or AggregateOffer) properties read from JSON-LD */
+interface JsonLdOffer {
+  price?: JsonLdValue;
+  lowPrice?: JsonLdValue;
+  priceCurrency?: string;
+  priceSpecification?: { price?: JsonLdValue; priceCurrency?: string };
+  availability?: string;
+  url?: string;
+}
+
+/** The schema.org Product (or ProductGroup) properties read from JSON-LD */
+interface JsonLdProduct {
+  '@type': string | string[];
+  name?: JsonLdValue;
+  description?: string;
+  url?: string;
+  image?: JsonLdImage | JsonLdImage[];
+  brand?: string | { name?: string };
+  offers?: JsonLdOffer | JsonLdOffer[];
+  hasVariant?: Array<{ offers?: JsonLdOffer | JsonLdOffer[] }>;
+}
+
+const CURRENCIES: Currency[] = ['USD', 'EUR', 'GBP'];
+
+/** schema.org ItemAvailability values, lower-cased without the "https://schema.org/" prefix */
+const SCHEMA_AVAILABILITY: Record<string, AvailabilityStatus> = {
+  instock: 'IN_STOCK',
+  onlineonly: 'IN_STOCK',
+  instoreonly: 'IN_STOCK',
+  limitedavailability: 'LIMITED_STOCK',
+  preorder: 'LIMITED_STOCK',
+  presale: 'LIMITED_STOCK',
+  backorder: 'LIMITED_STOCK',
+  outofstock: 'OUT_OF_STOCK',
+  soldout: 'OUT_OF_STOCK',
+  discontinued: 'OUT_OF_STOCK',
+};
+
+/** Properties that nest products in JSON-LD: graphs, item lists and a page's main entity */
+const JSON_LD_CONTAINERS = ['@graph', 'itemListElement', 'item', 'mainEntity'];
+const MAX_JSON_LD_DEPTH = 6;
+
+class StructuredDataExtractor {
+  /**
+   * Products from the first tier that has any: JSON-LD, then microdata, then OpenGraph
+   * pageUrl stands in for products that don't state their own URL (a product page's single product)
+   */
+  extract(html: string | cheerio.Root, target: ScraperTarget, pageUrl?: string): Product[] {
+    const $ = typeof html === 'string' ? cheerio.load(html) : html;
+    const tiers: Array<[ExtractionTier, () => StructuredProduct[]]> = [
+      ['json-ld', () => this.readJsonLd($)],
+      ['microdata', () => this.readMicrodata($)],
+      ['opengraph', () => this.readOpenGraph($)],
+    ];
+
+    for (const [tier, read] of tiers) {
+      const products = read()
+        .map((structured) => this.toProduct(structured, target, tier, pageUrl))
+        .filter((product): product is Product => product !== null);
+
+      if (products.length > 0) {
+        logger.debug(`Structured data found for ${target.name}`, { tier, products: products.length });
+        return products;
+      }
+    }
+
+    return [];
+  }
+
+  private readJsonLd($: cheerio.Root): StructuredProduct[] {
+    const nodes: JsonLdProduct[] = [];
+
+    $('script[type="application/ld+json"]').each((_, element) => {
+      try {
+        this.collectJsonLdProducts(JSON.parse($(element).contents().text()) as unknown, nodes, 0);
+      } catch (e) {
+        // Malformed block, try the next one
+      }
+    });
+
+    return nodes.map((node) => {
+      const variants = Array.isArray(node.hasVariant) ? node.hasVariant : [];
+      const offer = this.pickOffer(node.offers ?? variants[0]?.offers);
+      return {
+        name: this.asText(node.name),
+        description: this.asText(node.description),
+        url: this.asText(node.url) || this.asText(offer?.url),
+        images: this.asImages(node.image),
+        brand: this.asText(typeof node.brand === 'object' ? node.brand?.name : node.brand),
+        price: this.getOfferPrice(offer),
+        currency: this.asText(offer?.priceCurrency ?? offer?.priceSpecification?.priceCurrency),
+        availability: this.asText(offer?.availability),
+      };
+    });
+  }
+
+  private collectJsonLdProducts(node: unknown, nodes: JsonLdProduct[], depth: number): void {
+    if (!node || typeof node !== 'object' || depth > MAX_JSON_LD_DEPTH) return;
+
+    if (Array.isArray(node)) {
+      node.forEach((child: unknown) => this.collectJsonLdProducts(child, nodes, depth + 1));
+      return;
+    }
+
+    const record = node as Record<string, unknown>;
+    if (this.isJsonLdProduct(record)) {
+      nodes.push(record);
+      return;
+    }
+
+    JSON_LD_CONTAINERS.forEach((key) => this.collectJsonLdProducts(record[key], nodes, depth + 1));
+  }
+
+  private isJsonLdProduct(node: Record<string, unknown>): node is Record<string, unknown> & JsonLdProduct {
+    const types = ([] as unknown[]).concat(node['@type']);
+    return types.includes('Product') || types.includes('ProductGroup');
+  }
+
+  /**
+   * The first offer with a price; an AggregateOffer gives its lowest price
+   */
+  private pickOffer(offers: JsonLdOffer | JsonLdOffer[] | undefined): JsonLdOffer | undefined {
+    const list = ([] as Array<JsonLdOffer | null>).concat(offers ?? []).filter((offer): offer is JsonLdOffer =>
+      offer !== null && typeof offer === 'object');
+    return list.find((offer) => this.getOfferPrice(offer) !== undefined) || list[0];
+  }
+
+  private getOfferPrice(offer: JsonLdOffer | undefined): JsonLdValue | undefined {
+    return offer?.price ?? offer?.lowPrice ?? offer?.priceSpecification?.price;
+  }
+
+  private readMicrodata($: cheerio.Root): StructuredProduct[] {
+    const products: StructuredProduct[] = [];
+
+    $('[itemscope][itemtype*="schema.org/Product"]').each((_, element) => {
+      const $product = $(element);
+      const offers = this.getOwnProps($, $product, 'offers').first();
+      const brand = this.getOwnProps($, $product, 'brand').first();
+
+      products.push({
+        name: this.readProp($, $product, 'name'),
+        description: this.readProp($, $product, 'description'),
+        url: this.readProp($, $product, 'url'),
+        images: this.getOwnProps($, $product, 'image').toArray().map((image) => this.readValue($(image))).filter(Boolean),
+        brand: brand.is('[itemscope]') ? this.readProp($, brand, 'name') : this.readValue(brand) || undefined,
+        price: offers.length ? this.readProp($, offers, 'price') || this.readProp($, offers, 'lowPrice') : undefined,
+        currency: offers.length ? this.readProp($, offers, 'priceCurrency') : undefined,
+        availability: offers.length ? this.readProp($, offers, 'availability') : undefined,
+      });
+    });
+
+    return products;
+  }
+
+  /**
+   * Properties belonging to this item rather than to an item nested inside it (a brand's or offer's name)
+   */
+  private getOwnProps($: cheerio.Root, $scope: cheerio.Cheerio, name: string): cheerio.Cheerio {
+    const scope = $scope.get(0);
+    return $scope
+      .find(`[itemprop~="${name}"]`)
+      .filter((_, element) => $(element).parents('[itemscope]').get(0) === scope);
+  }
+
+  private readProp($: cheerio.Root, $scope: cheerio.Cheerio, name: string): string | undefined {
+    const $prop = this.getOwnProps($, $scope, name).first();
+    return $prop.length ? this.readValue($prop) || undefined : undefined;
+  }
+
+  private readValue($element: cheerio.Cheerio): string {
+    return ($element.attr('content') || $element.attr('src') || $element.attr('href') || $element.text() || '').trim();
+  }
+
+  /**
+   * A product page's own tags; pages whose og:type isn't a product and that give no price are skipped
+   */
+  private readOpenGraph($: cheerio.Root): StructuredProduct[] {
+    const meta = (property: string) =>
+      $(`meta[property="${property}"], meta[name="${property}"]`).first().attr('content')?.trim() || undefined;
+
+    const price = meta('product:price:amount') || meta('og:price:amount');
+    if (!meta('og:type')?.startsWith('product') && !price) return [];
+
+    return [{
+      name: meta('og:title'),
+      description: meta('og:description'),
+      url: meta('og:url'),
+      images: $('meta[property="og:image"]').toArray().map((element) => $(element).attr('content') || '').filter(Boolean),
+      brand: meta('product:brand') || meta('og:brand'),
+      price,
+      currency: meta('product:price:currency') || meta('og:price:currency'),
+      availability: meta('product:availability') || meta('og:availability'),
+    }];
+  }
+
+  /**
+   * Normalize a structured product; products without a name, or priced in a currency we can't show, are dropped
+   */
+  private toProduct(
+    structured: StructuredProduct,
+    target: ScraperTarget,
+    tier: ExtractionTier,
+    pageUrl?: string
+  ): Product | null {
+    if (!structured.name) return null;
+
+    const price = this.toPrice(structured, target);
+    if (!price) {
+      logger.debug(`Skipping ${structured.name} priced in ${structured.currency}`);
+      return null;
+    }
+
+    const images = structured.images.map((image) => makeAbsoluteUrl(image, target.baseUrl));
+
+    return {
+      id: generateId(target.id),
+      name: sanitizeText(structured.name),
+      description: structured.description ? sanitizeText(structured.description) : undefined,
+      url: makeAbsoluteUrl(structured.url || pageUrl || '', target.baseUrl),
+      imageUrl: images[0],
+      images: images.length > 0 ? images : undefined,
+      price,
+      brand: structured.brand ? sanitizeText(structured.brand) : undefined,
+      availability: this.toAvailability(structured.availability),
+      source: target.name,
+      scrapedAt: new Date(),
+      extractedBy: tier,
+    };
+  }
+
+  /**
+   * Price from the stated currency, else from a symbol in the price text, else in the store's currency
+   */
+  private toPrice(structured: StructuredProduct, target: ScraperTarget): Price | null {
+    const text = String(structured.price ?? '');
+    const currency = structured.currency?.toUpperCase();
+
+    if (currency) {
+      if (!CURRENCIES.includes(currency as Currency)) return null;
+      return createPrice(parseFloat(text.replace(/[^0-9.]/g, '')) || 0, currency as Currency);
+    }
+
+    const parsed = normalizePrice(text);
+    if (parsed.amount > 0) return parsed;
+    return createPrice(parseFloat(text.replace(/[^0-9.]/g, '')) || 0, target.currency || 'USD');
+  }
+
+  private toAvailability(availability?: string): AvailabilityStatus {
+    if (!availability) return 'IN_STOCK';
+    const value = availability.split('/').pop()?.toLowerCase().replace(/[^a-z]/g, '') || '';
+    return SCHEMA_AVAILABILITY[value] || determineAvailability(availability);
+  }
+
+  private asText(value: unknown): string | undefined {
+    if (typeof value === 'string') return value.trim() || undefined;
+    if (typeof value === 'number') return String(value);
+    return undefined;
+  }
+
+  /**
+   * image may be a URL, an ImageObject or a list of either
+   */
+  private asImages(image: JsonLdImage | JsonLdImage[] | undefined): string[] {
+    return ([] as Array<JsonLdImage | null>)
+      .concat(image ?? [])
+      .map((item) => (typeof item === 'string' ? item : item?.url || item?.contentUrl))
+      .filter((url): url is string => typeof url === 'string' && url.length > 0);
+  }
+}
+
+export const structuredDataExtractor = new StructuredDataExtractor();
@@ -4,14 +4,16 @@
  */
 
 import { OpenAI } from 'openai';
-import puppeteer, { Browser, Page } from 'puppeteer';
+import type { Page } from 'puppeteer-core';
 import { logger } from '../utils/logger';
-import { Product, ScraperTarget, ScraperResult } from '../types';
+import { Product, ScraperTarget, ScraperResult, BrowserSession } from '../types';
 import { config } from '../config';
+import { browserPool } from '../scrapers/browser';
+import { paginationEngine, productKey } from '../scrapers/pagination';
+import { structuredDataExtractor } from '../scrapers/structured-data';
 
 export class AIScraperService {
   private openai: OpenAI;
-  private browser: Browser | null = null;
 
   constructor() {
     this.openai = new OpenAI({
@@ -19,79 +21,38 @@ export class AIScraperService {
     });
   }
 
-  /**
-   * Initialize Puppeteer browser
-   */
-  private async initializeBrowser(): Promise<Browser> {
-    if (!this.browser) {
-      logger.info('Initializing Puppeteer browser for AI scraper');
-      this.browser = await puppeteer.launch({
-        headless: true,
-        args: [
-          '--no-sandbox',
-          '--disable-setuid-sandbox',
-          '--disable-dev-shm-usage',
-          '--disable-accelerated-2d-canvas',
-          '--no-first-run',
-          '--no-zygote',
-          '--disable-gpu',
-        ],
-      });
-    }
-    return this.browser;
-  }
-
-  /**
-   * Close Puppeteer browser
-   */
-  async closeBrowser(): Promise<void> {
-    if (this.browser) {
-      logger.info('Closing Puppeteer browser');
-      await this.browser.close();
-      this.browser = null;
-    }
-  }
-
   /**
    * Scrape target using AI to parse HTML
    */
   async scrapeTargetWithAI(
     target: ScraperTarget,
-    query: string
+    query: string,
+    session?: BrowserSession
   ): Promise<ScraperResult> {
     const startTime = Date.now();
-    let page: Page | null = null;
 
     try {
-      const browser = await this.initializeBrowser();
-      page = await browser.newPage();
-
-      // Set user agent and viewport
-      await page.setUserAgent(config.scraper.userAgent);
-      await page.setViewport({ width: 1920, height: 1080 });
+      const products = await (session || browserPool).withPage(async (page) => {
+        // Set user agent and viewport
+        await page.setUserAgent(config.scraper.userAgent);
+        await page.setViewport({ width: 1920, height: 1080 });
+
+        // Navigate to search page
+        const searchUrl = `${target.baseUrl}${target.searchPath}?q=${encodeURIComponent(query)}`;
+        logger.info(`AI Scraping: ${searchUrl}`);
+
+        await page.goto(searchUrl, {
+          waitUntil: 'networkidle2',
+          timeout: target.timeout,
+        });
 
-      // Navigate to search page
-      const searchUrl = `${target.baseUrl}${target.searchPath}?q=${encodeURIComponent(query)}`;
-      logger.info(`AI Scraping: ${searchUrl}`);
+        // Wait for content to load
+        await new Promise(resolve => setTimeout(resolve, target.delay));
 
-      await page.goto(searchUrl, {
-        waitUntil: 'networkidle2',
-        timeout: target.timeout,
+        // Reveal or visit further pages as the target's pagination declares, then extract products using AI
+        return this.collectProducts(page, target, searchUrl, query);
       });
 
-      // Wait for content to load
-      await new Promise(resolve => setTimeout(resolve, target.delay));
-
-      // Load more products (handle pagination)
-      await this.loadMoreProducts(page);
-
-      // Get the HTML content
-      const htmlContent = await page.content();
-      logger.debug(`Retrieved HTML content: ${htmlContent.length} characters`);
-
-      // Extract products using AI
-      const products = await this.extractProductsWithAI(htmlContent, target.name, query);
-
       const processingTime = Date.now() - startTime;
       logger.info(`AI scrape completed for ${target.name}`, {
         productsFound: products.length,
@@ -158,7 +119,7 @@ export class AIScraperService {
 
       // Parse the JSON response
       const parsed = JSON.parse(content);
-      return parsed.products || [];
+      return (parsed.products || []).map((product: Product) => ({ ...product, extractedBy: 'ai' }));
 
     } catch (error) {
       logger.error('AI extraction failed', { error });
@@ -167,96 +128,47 @@ export class AIScraperService {
   }
 
   /**
-   * Load more products by handling pagination
+   * In-page strategies reveal every page before one extraction, stopping when no new product elements
+   * appear; page-param extracts each page it visits
    */
-  private async loadMoreProducts(page: Page): Promise<void> {
-    try {
-      // Try to click "Load More" button multiple times
-      for (let i = 0; i < 6; i++) { // Try up to 6 times to get all 42 products
-        // Look for common "Load More" button patterns
-        const loadMoreSelectors = [
-          'button[data-testid="load-more"]',
-          'button:contains("Load More")',
-          'button:contains("Show More")',
-          'button:contains("More")',
-          '.load-more',
-          '.show-more',
-          '.pagination-next',
-          'a[aria-label*="next"]',
-          'a[aria-label*="more"]',
-          '[data-testid*="load"]',
-          '[data-testid*="more"]',
-          'button[class*="load"]',
-          'button[class*="more"]',
-          'a[class*="load"]',
-          'a[class*="more"]'
-        ];
-        
-        let clicked = false;
-        
-        for (const selector of loadMoreSelectors) {
-          try {
-            const button = await page.$(selector);
-            if (button) {
-              const isVisible = await button.isIntersectingViewport();
-              if (isVisible) {
-                await button.click();
-                logger.info(`Clicked load more button: ${selector}`);
-                clicked = true;
-                break;
-              }
-            }
-          } catch (e) {
-            // Continue to next selector
-          }
-        }
-        
-        // If no button found, try clicking any element with "load more" text
-        if (!clicked) {
-          try {
-            const loadMoreButton = await page.evaluateHandle(() => {
-              const buttons = document.querySelectorAll('button, a');
-              for (const button of buttons) {
-                const text = button.textContent?.toLowerCase() || '';
-                if (text.includes('load more') || text.includes('show more')) {
-                  return button;
-                }
-              }
-              return null;
-            });
-            
-            if (loadMoreButton.asElement()) {
-              await (loadMoreButton.asElement() as any).click();
-              logger.info('Clicked load more button via text search');
-              clicked = true;
-            }
-          } catch (e) {
-            // Continue
-          }
-        }
-        
-        if (!clicked) {
-          logger.info(`No more "Load More" buttons found after ${i + 1} attempts`);
-          break;
-        }
-        
-        // Wait for new products to load
-        await new Promise(resolve => setTimeout(resolve, 3000));
-        
-        // Check if we got more products
-        const productCount = await page.$$eval('[class*="product"], [data-testid*="product"]', elements => elements.length);
-        logger.info(`Products loaded so far: ${productCount}`);
-        
-        // If we have 42+ products, we're done
-        if (productCount >= 42) {
-          logger.info('Reached target product count (42+)');
-          break;
-        }
-      }
-      
-    } catch (error) {
-      logger.warn('Error during pagination handling', { error });
+  private async collectProducts(
+    page: Page,
+    target: ScraperTarget,
+    searchUrl: string,
+    query: string
+  ): Promise<Product[]> {
+    const extract = async () => {
+      const htmlContent = await page.content();
+      logger.debug(`Retrieved HTML content: ${htmlContent.length} characters`);
+
+      // Structured data is free and exact; only pages without it are sent to the model
+      const structured = structuredDataExtractor.extract(htmlContent, target, page.url());
+      return structured.length > 0 ? structured : this.extractProductsWithAI(htmlContent, target.name, query);
+    };
+
+    const { pagination } = target;
+    if (pagination && paginationEngine.isInPage(target)) {
+      await paginationEngine.collect(target, async (pageIndex) => {
+        if (pageIndex > 0 && !(await paginationEngine.advance(page, pagination))) return null;
+        return page
+          .$$eval(target.selectors.productContainer, (elements) => elements.map((element) => element.textContent || ''))
+          .catch(() => []);
+      }, (text) => text);
+      return extract();
     }
+
+    const paginated = paginationEngine.uses(target, 'ai', ['page-param']);
+    return paginationEngine.collect(target, async (pageIndex) => {
+      if (pageIndex > 0) {
+        if (!paginated) return null;
+        await page.goto(paginationEngine.getPageUrl(searchUrl, pagination, pageIndex), {
+          waitUntil: 'networkidle2',
+          timeout: target.timeout,
+        });
+        await new Promise(resolve => setTimeout(resolve, target.delay));
+      }
+      return extract();
+    }, productKey);
   }
 
   /**
@@ -368,12 +280,13 @@ If no products are found, return: {"products": []}
    */
   async scrapeMultipleTargetsWithAI(
     targets: ScraperTarget[],
-    query: string
+    query: string,
+    session?: BrowserSession
   ): Promise<ScraperResult[]> {
     logger.info(`AI scraping ${targets.length} targets`, { query });
 
     const results = await Promise.allSettled(
-      targets.map(target => this.scrapeTargetWithAI(target, query))
+      targets.map(target => this.scrapeTargetWithAI(target, query, session))
     );
 
     return results.map((result, index) => {
@@ -0,0 +1,92 @@
+/**
+ * Clarification Service
+ * Detects underspecified search intents and builds a clarifying question with quick replies
+ */
+
+import { logger } from '../utils/logger';
+import type { SearchIntent, Clarification } from '../types';
+
+// Item words that say nothing about what to scrape
+const GENERIC_ITEM_WORDS = new Set([
+  'merchandise', 'merch', 'gear', 'stuff', 'item', 'items', 'product', 'products', 'thing',
+  'things', 'something', 'anything', 'gift', 'gifts', 'present', 'presents', 'souvenir',
+  'souvenirs', 'general', 'f1', 'formula', '1', 'one', 'racing', 'official',
+]);
+
+const FILLER_WORDS = new Set([
+  'a', 'an', 'the', 'some', 'any', 'me', 'my', 'for', 'show', 'find', 'get', 'i', 'want',
+  'need', 'looking', 'buy', 'to', 'of', 'please', 'nice', 'cool', 'good',
+]);
+
+const CATEGORY_OPTIONS = [
+  { label: 'T-shirts', value: 't-shirt' },
+  { label: 'Hoodies', value: 'hoodie' },
+  { label: 'Jackets', value: 'jacket' },
+  { label: 'Caps', value: 'cap' },
+  { label: 'Model cars', value: 'model car' },
+  { label: 'Collectibles', value: 'collectibles' },
+];
+
+const TEAM_OPTIONS = [
+  { label: 'Red Bull', value: 'Red Bull' },
+  { label: 'Ferrari', value: 'Ferrari' },
+  { label: 'Mercedes', value: 'Mercedes' },
+  { label: 'McLaren', value: 'McLaren' },
+  { label: 'Aston Martin', value: 'Aston Martin' },
+  { label: 'Any team', value: 'any team is fine' },
+];
+
+class ClarificationService {
+  /**
+   * Check whether an intent is too vague to search
+   * Vague means no team, driver, product type or price and only a generic item
+   */
+  needsClarification(intent: SearchIntent): boolean {
+    if (intent.team || intent.driver || intent.minPrice || intent.maxPrice) {
+      return false;
+    }
+    if (intent.productType && intent.productType !== 'other') {
+      return false;
+    }
+    return !intent.item || this.isGenericItem(intent.item);
+  }
+
+  /**
+   * Build one targeted clarifying question for a vague intent
+   * Asks for the product type first, then the team; returns null once both were asked
+   */
+  buildClarification(intent: SearchIntent, previous?: Clarification): Clarification | null {
+    if (previous?.field === 'team') {
+      logger.info('Still vague after clarifying, searching anyway', { intent });
+      return null;
+    }
+
+    const clarification: Clarification = previous?.field === 'item'
+      ? {
+          question: 'No problem! Do you have a favourite team?',
+          field: 'team',
+          options: TEAM_OPTIONS,
+        }
+      : {
+          question: 'Happy to help! What kind of F1 merchandise are you after?',
+          field: 'item',
+          options: CATEGORY_OPTIONS,
+        };
+
+    logger.info('Built clarifying question', { intent, field: clarification.field });
+    return clarification;
+  }
+
+  /**
+   * Check whether an item only contains generic or filler words
+   */
+  private isGenericItem(item: string): boolean {
+    const words = item
+      .toLowerCase()
+      .split(/[^a-z0-9]+/)
+      .filter((word) => word && !FILLER_WORDS.has(word));
+    return words.every((word) => GENERIC_ITEM_WORDS.has(word));
+  }
+}
+
+export const clarificationService = new ClarificationService();
@@ -0,0 +1,173 @@
+/**
+ * Constraint Service
+ * Checks products against the constraints an intent states, enforcing the hard ones (budget, exclusions)
+ * and marking the rest as exact matches or close alternatives
+ */
+
+import { knowledgeBaseService } from './knowledge-base.service';
+import { logger } from '../utils/logger';
+import { escapeRegExp } from '../utils/helpers';
+import { detectProductTypes, getProductTypeKeywords } from '../config/product-taxonomy';
+import type { Product, SearchIntent, ConstraintCheck, ConstraintViolation, Currency } from '../types';
+
+export const CURRENCY_SYMBOLS: Record<Currency, string> = { USD: '$', EUR: '€', GBP: '£' };
+
+const USED_PATTERN = /\b(used|pre-owned|preowned|second hand)\b/;
+
+class ConstraintService {
+  /**
+   * Check every constraint the intent states against a product
+   * A constraint is violated only when the product contradicts it (another team, a different season);
+   * a listing that doesn't say is "unknown"
+   */
+  evaluate(product: Product, intent: SearchIntent): ConstraintCheck[] {
+    const text = this.getProductText(product);
+    const lowerText = text.toLowerCase();
+    const checks: ConstraintCheck[] = [];
+    const { teams, drivers } = (intent.team || intent.driver) ? knowledgeBaseService.resolve(text) : { teams: [], drivers: [] };
+
+    if (intent.team) {
+      const wanted = knowledgeBaseService.resolveTeam(intent.team);
+      const other = teams.find((team) => team.id !== wanted?.id);
+      checks.push(knowledgeBaseService.mentions(text, 'team', intent.team)
+        ? { constraint: 'team', status: 'match', hard: false }
+        : other
+          ? { constraint: 'team', status: 'violated', hard: false, reason: `${other.name}, not ${intent.team}` }
+          : { constraint: 'team', status: 'unknown', hard: false });
+    }
+
+    if (intent.driver) {
+      const wanted = knowledgeBaseService.resolveDriver(intent.driver);
+      const other = drivers.find((driver) => driver.id !== wanted?.id);
+      checks.push(knowledgeBaseService.mentions(text, 'driver', intent.driver)
+        ? { constraint: 'driver', status: 'match', hard: false }
+        : other
+          ? { constraint: 'driver', status: 'violated', hard: false, reason: `${other.fullName}, not ${wanted?.fullName || intent.driver}` }
+          : { constraint: 'driver', status: 'unknown', hard: false });
+    }
+
+    if (intent.productType && intent.productType !== 'other') {
+      // The name says what the product is; descriptions often mention other items
+      const named = detectProductTypes(product.name);
+      checks.push(named.includes(intent.productType) || detectProductTypes(text).includes(intent.productType)
+        ? { constraint: 'productType', status: 'match', hard: false }
+        : named.length > 0
+          ? { constraint: 'productType', status: 'violated', hard: false, reason: `${named[0].replace('-', ' ')}, not ${intent.productType.replace('-', ' ')}` }
+          : { constraint: 'productType', status: 'unknown', hard: false });
+    }
+
+    if (intent.colour) {
+      checks.push({ constraint: 'colour', status: this.hasWord(lowerText, intent.colour) ? 'match' : 'unknown', hard: false });
+    }
+
+    if (intent.season) {
+      const seasons = Array.from(new Set(lowerText.match(/\b(?:19|20)\d{2}\b/g) || []));
+      checks.push(seasons.includes(String(intent.season))
+        ? { constraint: 'season', status: 'match', hard: false }
+        : seasons.length > 0
+          ? { constraint: 'season', status: 'violated', hard: false, reason: `${seasons[0]} season, not ${intent.season}` }
+          : { constraint: 'season', status: 'unknown', hard: false });
+    }
+
+    if (intent.size) {
+      checks.push({ constraint: 'size', status: this.hasWord(lowerText, intent.size) ? 'match' : 'unknown', hard: false });
+    }
+
+    if (intent.condition) {
+      const used = USED_PATTERN.test(lowerText);
+      checks.push(intent.condition === 'used'
+        ? { constraint: 'condition', status: used ? 'match' : 'unknown', hard: false }
+        : used
+          ? { constraint: 'condition', status: 'violated', hard: false, reason: 'pre-owned, not new' }
+          : { constraint: 'condition', status: 'unknown', hard: false });
+    }
+
+    if (intent.minPrice || intent.maxPrice) {
+      checks.push(this.isPriceComparable(product, intent)
+        ? this.checkBudget(product, intent)
+        : { constraint: 'budget', status: 'unknown', hard: true });
+    }
+
+    return checks;
+  }
+
+  /**
+   * Drop products outside the budget, mark each remaining product as an exact match or a close
+   * alternative with the constraints it breaks, and put exact matches first
+   * Alternatives breaking fewer constraints come first; otherwise the ranked order is kept
+   */
+  apply(products: Product[], intent: SearchIntent): Product[] {
+    let overBudget = 0;
+
+    const annotated = products.flatMap((product) => {
+      const checks = this.evaluate(product, intent);
+      if (checks.some((check) => check.hard && check.status === 'violated')) {
+        overBudget++;
+        return [];
+      }
+
+      const violations: ConstraintViolation[] = checks
+        .filter((check) => check.status === 'violated')
+        .map((check) => ({ constraint: check.constraint, reason: check.reason || check.constraint }));
+
+      return [{ ...product, match: { exact: violations.length === 0, violations } }];
+    });
+
+    const ordered = annotated
+      .map((product, index) => ({ product, index }))
+      .sort((a, b) => a.product.match.violations.length - b.product.match.violations.length || a.index - b.index)
+      .map(({ product }) => product);
+
+    logger.info('Intent constraints applied', {
+      removedOverBudget: overBudget,
+      exactMatches: ordered.filter((p) => p.match.exact).length,
+      alternatives: ordered.filter((p) => !p.match.exact).length,
+    });
+
+    return ordered;
+  }
+
+  /**
+   * Check whether product text mentions an excluded team, driver, product type or term
+   */
+  mentionsExcluded(productText: string, intent: SearchIntent): boolean {
+    const text = productText.toLowerCase();
+    const hasWord = (word: string) => new RegExp(`\\b${escapeRegExp(word.toLowerCase())}(?:e?s)?\\b`).test(text);
+
+    return (intent.excludedTeams || []).some((team) => knowledgeBaseService.mentions(productText, 'team', team)) ||
+      (intent.excludedDrivers || []).some((driver) => knowledgeBaseService.mentions(productText, 'driver', driver)) ||
+      (intent.excludedProductTypes || []).some((type) => getProductTypeKeywords(type).some(hasWord)) ||
+      (intent.excludedTerms || []).some(hasWord);
+  }
+
+  /**
+   * Check whether a product price can be compared with the intent's price range
+   */
+  isPriceComparable(product: Product, intent: SearchIntent): boolean {
+    if (product.price.amount <= 0) return false;
+    return !intent.currency || intent.currency === product.price.currency;
+  }
+
+  getProductText(product: Product): string {
+    return `${product.name} ${product.description || ''} ${product.brand || ''}`;
+  }
+
+  private checkBudget(product: Product, intent: SearchIntent): ConstraintCheck {
+    const { amount, formattedAmount, currency } = product.price;
+    const symbol = CURRENCY_SYMBOLS[currency];
+
+    if (intent.maxPrice && amount > intent.maxPrice) {
+      return { constraint: 'budget', status: 'violated', hard: true, reason: `${formattedAmount} is over the ${symbol}${intent.maxPrice} budget` };
+    }
+    if (intent.minPrice && amount < intent.minPrice) {
+      return { constraint: 'budget', status: 'violated', hard: true, reason: `${formattedAmount} is under the ${symbol}${intent.minPrice} minimum` };
+    }
+    return { constraint: 'budget', status: 'match', hard: true };
+  }
+
+  private hasWord(text: string, word: string): boolean {
+    return new RegExp(`\\b${escapeRegExp(word.toLowerCase())}\\b`).test(text);
+  }
+}
+
+export const constraintService = new ConstraintService();
@@ -0,0 +1,199 @@
+/**
+ * Conversation Service
+ * In-memory store for multi-turn chat sessions
+ */
+
+import { config } from '../config';
+import { logger } from '../utils/logger';
+import { generateId } from '../utils/helpers';
+import type { ConversationSession, ConversationRole, Clarification, Product, SearchIntent } from '../types';
+
+class ConversationService {
+  private sessions: Map<string, ConversationSession>;
+  private ttl: number;
+  private maxMessages: number;
+  private maxSessions: number;
+
+  constructor() {
+    this.sessions = new Map();
+    this.ttl = config.conversation.ttl * 1000; // Convert to milliseconds
+    this.maxMessages = config.conversation.maxMessages;
+    this.maxSessions = config.conversation.maxSessions;
+  }
+
+  /**
+   * Create a new session
+   */
+  createSession(): ConversationSession {
+    if (this.sessions.size >= this.maxSessions) {
+      this.cleanup();
+      this.evictOldest();
+    }
+
+    const now = new Date();
+    const session: ConversationSession = {
+      id: generateId('session'),
+      messages: [],
+      lastIntent: undefined,
+      lastProducts: [],
+      createdAt: now,
+      updatedAt: now,
+      expiresAt: new Date(now.getTime() + this.ttl),
+    };
+
+    this.sessions.set(session.id, session);
+    logger.info('Conversation session created', { sessionId: session.id });
+    return session;
+  }
+
+  /**
+   * Get an active session by ID
+   */
+  getSession(sessionId: string): ConversationSession | null {
+    const session = this.sessions.get(sessionId);
+
+    if (!session) {
+      return null;
+    }
+
+    // Check if expired
+    if (Date.now() > session.expiresAt.getTime()) {
+      logger.debug('Conversation session expired', { sessionId });
+      this.sessions.delete(sessionId);
+      return null;
+    }
+
+    return session;
+  }
+
+  /**
+   * Get an existing session or create a new one
+   */
+  getOrCreateSession(sessionId?: string): ConversationSession {
+    if (sessionId) {
+      const session = this.getSession(sessionId);
+      if (session) return session;
+      logger.info('Unknown or expired session, starting a new one', { sessionId });
+    }
+    return this.createSession();
+  }
+
+  /**
+   * Append a message to the session history
+   */
+  addMessage(sessionId: string, role: ConversationRole, content: string): void {
+    const session = this.getSession(sessionId);
+    if (!session) return;
+
+    session.messages.push({ role, content, timestamp: new Date() });
+
+    // Keep only the most recent messages
+    if (session.messages.length > this.maxMessages) {
+      session.messages = session.messages.slice(-this.maxMessages);
+    }
+
+    this.touch(session);
+  }
+
+  /**
+   * Store the latest search state for follow-up queries
+   */
+  updateSearchState(sessionId: string, intent: SearchIntent, products: Product[]): void {
+    const session = this.getSession(sessionId);
+    if (!session) return;
+
+    session.lastIntent = intent;
+    session.lastProducts = products;
+    session.pendingClarification = undefined;
+    session.pendingIntent = undefined;
+    this.touch(session);
+  }
+
+  /**
+   * Record (or clear) the clarifying question awaiting an answer
+   * The vague intent is kept apart from lastIntent, which stays the last intent actually searched,
+   * so the answer refines it
+   */
+  setPendingClarification(sessionId: string, clarification?: Clarification, intent?: SearchIntent): void {
+    const session = this.getSession(sessionId);
+    if (!session) return;
+
+    session.pendingClarification = clarification;
+    session.pendingIntent = clarification ? intent : undefined;
+    this.touch(session);
+  }
+
+  /**
+   * Delete a session
+   */
+  deleteSession(sessionId: string): boolean {
+    const deleted = this.sessions.delete(sessionId);
+    if (deleted) {
+      logger.info('Conversation session deleted', { sessionId });
+    }
+    return deleted;
+  }
+
+  /**
+   * Get session stats
+   */
+  getStats() {
+    return {
+      size: this.sessions.size,
+      ttl: this.ttl,
+      maxSessions: this.maxSessions,
+    };
+  }
+
+  /**
+   * Clean expired sessions
+   */
+  cleanup(): void {
+    const now = Date.now();
+    let cleaned = 0;
+
+    for (const [id, session] of this.sessions.entries()) {
+      if (now > session.expiresAt.getTime()) {
+        this.sessions.delete(id);
+        cleaned++;
+      }
+    }
+
+    if (cleaned > 0) {
+      logger.info(`Conversation cleanup: removed ${cleaned} expired sessions`);
+    }
+  }
+
+  /**
+   * Extend session expiry after activity
+   */
+  private touch(session: ConversationSession): void {
+    const now = new Date();
+    session.updatedAt = now;
+    session.expiresAt = new Date(now.getTime() + this.ttl);
+  }
+
+  /**
+   * Evict the least recently updated session when the store is full
+   */
+  private evictOldest(): void {
+    if (this.sessions.size < this.maxSessions) return;
+
+    let oldest: ConversationSession | null = null;
+    for (const session of this.sessions.values()) {
+      if (!oldest || session.updatedAt < oldest.updatedAt) {
+        oldest = session;
+      }
+    }
+
+    if (oldest) {
+      this.sessions.delete(oldest.id);
+      logger.warn('Conversation store full, evicted oldest session', { sessionId: oldest.id });
+    }
+  }
+}
+
+export const conversationService = new ConversationService();
+
+// Run cleanup every 5 minutes
+setInterval(() => conversationService.cleanup(), 5 * 60 * 1000);
@@ -0,0 +1,169 @@
+/**
+ * Embedding Service
+ * Embeds text with the configured provider (OpenAI, a local CPU model or a deterministic hash stub)
+ * and caches embeddings so products seen in earlier searches aren't embedded again
+ */
+
+import OpenAI from 'openai';
+import { createHash } from 'crypto';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+import { tokenize } from '../utils/helpers';
+import type { FeatureExtractionPipeline } from '@huggingface/transformers';
+import type { EmbeddingProvider, EmbeddingProviderName } from '../types';
+
+export const EMBEDDING_PROVIDERS: EmbeddingProviderName[] = ['openai', 'local', 'hash'];
+
+/**
+ * Scale a vector to unit length
+ */
+function normalizeVector(vector: number[]): number[] {
+  const length = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return length > 0 ? vector.map((value) => value / length) : vector;
+}
+
+/**
+ * OpenAI embeddings API
+ */
+class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'openai';
+  readonly model = config.embeddings.openaiModel;
+  private client = new OpenAI({ apiKey: config.openai.apiKey });
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const response = await this.client.embeddings.create({ model: this.model, input: texts });
+    return response.data
+      .sort((a, b) => a.index - b.index)
+      .map((item) => normalizeVector(item.embedding));
+  }
+}
+
+/**
+ * Sentence-embedding model run on the CPU with transformers.js (an optional dependency)
+ * The model is downloaded on first use; later searches reuse the loaded pipeline
+ */
+class LocalEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'local';
+  readonly model = config.embeddings.localModel;
+  private extractor: Promise<FeatureExtractionPipeline> | null = null;
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const extractor = await this.getExtractor();
+    const output = await extractor(texts, { pooling: 'mean', normalize: true });
+    return output.tolist() as number[][];
+  }
+
+  private getExtractor(): Promise<FeatureExtractionPipeline> {
+    if (!this.extractor) {
+      logger.info('Loading local embedding model', { model: this.model });
+      this.extractor = import('@huggingface/transformers')
+        .then(({ pipeline }) => pipeline('feature-extraction', this.model, {
+          dtype: 'q8',
+          cache_dir: config.embeddings.localCacheDir || undefined,
+        }));
+      // A failed load (package or model missing) is retried by the next search
+      this.extractor.catch(() => {
+        this.extractor = null;
+      });
+    }
+    return this.extractor;
+  }
+}
+
+/**
+ * Deterministic stub for tests: hashed word features, so texts sharing words are similar
+ * It knows nothing about meaning ("jacket" and "coat" are unrelated)
+ */
+class HashEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'hash';
+  readonly model = `hash-${config.embeddings.hashDimensions}`;
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map((text) => {
+      const vector = new Array<number>(config.embeddings.hashDimensions).fill(0);
+      tokenize(text).forEach((token) => {
+        const hash = createHash('md5').update(token).digest();
+        const index = hash.readUInt32BE(0) % vector.length;
+        vector[index] += hash[4] & 1 ? 1 : -1;
+      });
+      return normalizeVector(vector);
+    });
+  }
+}
+
+class EmbeddingService {
+  private providers: Map<EmbeddingProviderName, EmbeddingProvider>;
+  private cache: Map<string, number[]>;
+  private maxEntries: number;
+
+  constructor() {
+    this.providers = new Map();
+    this.cache = new Map();
+    this.maxEntries = config.embeddings.cacheSize;
+  }
+
+  /**
+   * The configured provider, or null when semantic re-ranking is off
+   */
+  getProvider(name: string = config.embeddings.provider): EmbeddingProvider | null {
+    if (!EMBEDDING_PROVIDERS.includes(name as EmbeddingProviderName)) return null;
+
+    const providerName = name as EmbeddingProviderName;
+    let provider = this.providers.get(providerName);
+    if (!provider) {
+      provider = providerName === 'openai' ? new OpenAIEmbeddingProvider()
+        : providerName === 'local' ? new LocalEmbeddingProvider()
+          : new HashEmbeddingProvider();
+      this.providers.set(providerName, provider);
+    }
+    return provider;
+  }
+
+  /**
+   * Embed texts, calling the provider only for texts not already cached
+   */
+  async embed(provider: EmbeddingProvider, texts: string[]): Promise<number[][]> {
+    const keys = texts.map((text) => this.cacheKey(provider, text));
+    const missing = Array.from(new Set(texts.filter((_, index) => !this.cache.has(keys[index]))));
+
+    // Fresh vectors are read back from here in case the cache evicted them already
+    const embedded = new Map<string, number[]>();
+    if (missing.length > 0) {
+      const vectors = await provider.embed(missing);
+      missing.forEach((text, index) => {
+        const key = this.cacheKey(provider, text);
+        embedded.set(key, vectors[index]);
+        this.remember(key, vectors[index]);
+      });
+    }
+
+    logger.debug('Embeddings resolved', { provider: provider.name, texts: texts.length, embedded: missing.length });
+    return keys.map((key) => embedded.get(key) || (this.cache.get(key) as number[]));
+  }
+
+  /**
+   * Cosine similarity of two unit vectors
+   */
+  similarity(a: number[], b: number[]): number {
+    return a.reduce((sum, value, index) => sum + value * (b[index] || 0), 0);
+  }
+
+  private cacheKey(provider: EmbeddingProvider, text: string): string {
+    return `${provider.name}:${provider.model}:${createHash('sha1').update(text).digest('hex')}`;
+  }
+
+  /**
+   * Store an embedding, evicting the least recently stored one when the cache is full
+   */
+  private remember(key: string, vector: number[]): void {
+    this.cache.delete(key);
+    this.cache.set(key, vector);
+
+    if (this.cache.size > this.maxEntries) {
+      const oldest = this.cache.keys().next().value;
+      if (oldest !== undefined) this.cache.delete(oldest);
+    }
+  }
+}
+
+export const embeddingService = new EmbeddingService();
@@ -0,0 +1,158 @@
+/**
+ * Era Service
+ * Links drivers, teams and seasons in an intent using the F1 knowledge base
+ */
+
+import { knowledgeBaseService } from './knowledge-base.service';
+import { logger } from '../utils/logger';
+import type { SearchIntent, IntentEra, EraConflict, F1Driver, F1DriverStint, F1Team, ScraperTarget } from '../types';
+
+interface EraResolution {
+  intent: SearchIntent;
+  era: IntentEra;
+}
+
+class EraService {
+  /**
+   * Infer the team from driver + season and the season from a one-year driver + team stint,
+   * and drop whichever field makes a driver/team/season combination impossible
+   */
+  resolve(input: SearchIntent): EraResolution {
+    const intent: SearchIntent = { ...input };
+    const inferred: IntentEra['inferred'] = [];
+    const conflicts: EraConflict[] = [];
+
+    const driver = intent.driver ? knowledgeBaseService.resolveDriver(intent.driver) : null;
+    const team = intent.team ? knowledgeBaseService.resolveTeam(intent.team) : null;
+
+    // A team that did not exist in the season ("Haas 2010")
+    if (team && intent.season && !knowledgeBaseService.getTeamNameInSeason(team.id, intent.season)) {
+      const first = Math.min(...team.names.map((n) => n.from));
+      conflicts.push({
+        team: team.name,
+        season: intent.season,
+        message: `${team.name} did not race in ${intent.season} (its first season was ${first}), so I searched without the year.`,
+      });
+      delete intent.season;
+    }
+
+    if (driver && team) {
+      const stints = driver.teams.filter((stint) => stint.team === team.id);
+
+      if (stints.length === 0) {
+        // "Verstappen Mercedes": keep the driver, who is usually the point of the search
+        conflicts.push({
+          driver: driver.name,
+          team: team.name,
+          message: `${driver.fullName} never raced for ${team.name} (${this.describeStints(driver.teams)}), so I searched for ${driver.fullName} merchandise instead.`,
+        });
+        delete intent.team;
+      } else if (intent.season && !stints.some((stint) => this.inSeason(stint, intent.season!))) {
+        conflicts.push({
+          driver: driver.name,
+          team: team.name,
+          season: intent.season,
+          message: `${driver.fullName} did not race for ${team.name} in ${intent.season} (${this.describeStints(stints)}), so I searched without the year.`,
+        });
+        delete intent.season;
+      } else if (!intent.season && stints.length === 1 && stints[0].from === stints[0].to) {
+        intent.season = stints[0].from;
+        inferred.push('season');
+      }
+    }
+
+    // "Vettel 2013 shirt" -> Red Bull; skipped when a mid-season swap makes it ambiguous
+    if (driver && !intent.team && intent.season && !conflicts.some((c) => c.driver)) {
+      const teams = knowledgeBaseService.getDriverTeams(driver.id, intent.season);
+      if (teams.length === 1) {
+        intent.team = teams[0].name;
+        inferred.push('team');
+      }
+    }
+
+    const era: IntentEra = {
+      era: this.classify(intent, driver, team && intent.team ? team : null),
+      inferred,
+      conflicts,
+    };
+
+    // Name the team raced under at the time ("Schumacher Benetton 1994" rather than Alpine)
+    const resolvedTeam = intent.team ? knowledgeBaseService.resolveTeam(intent.team) : null;
+    if (resolvedTeam) {
+      const stint = driver?.teams.filter((s) => s.team === resolvedTeam.id).pop();
+      const season = intent.season || (stint ? stint.to ?? knowledgeBaseService.currentSeason : undefined);
+      era.teamName = season ? knowledgeBaseService.getTeamNameInSeason(resolvedTeam.id, season) || undefined : undefined;
+    }
+
+    if (inferred.length > 0 || conflicts.length > 0) {
+      logger.info('Era resolved', { intent, era });
+    }
+
+    return { intent, era };
+  }
+
+  /**
+   * Build a scrape query per target for vintage searches
+   * Stores with vintage stock get the period team name and season; current-range stores
+   * only carry heritage lines, so they get a "retro" query. Current searches need no variants.
+   */
+  buildQueryVariants(intent: SearchIntent, era: IntentEra, targets: ScraperTarget[]): Record<string, string> {
+    if (era.era === 'current') return {};
+
+    const driver = intent.driver ? knowledgeBaseService.resolveDriver(intent.driver) : null;
+    const teamName = era.teamName || intent.team;
+    const driverName = driver?.fullName || intent.driver;
+    const item = intent.item || intent.productType;
+    const join = (terms: Array<string | number | undefined>) => terms.filter(Boolean).join(' ');
+
+    const variants: Record<string, string> = {};
+    targets.forEach((target) => {
+      const stock = target.merchandise || ['current'];
+      variants[target.id] = stock.includes('vintage')
+        ? join(['F1', intent.season, teamName, driverName, item])
+        : join([teamName, driverName, 'retro', item]);
+    });
+
+    logger.info('Built vintage query variants', { variants });
+    return variants;
+  }
+
+  /**
+   * Merchandise is vintage when its season is over a year old, when the user asked for
+   * retro merchandise, or when the driver has no current stint with the team
+   */
+  private classify(intent: SearchIntent, driver: F1Driver | null, team: F1Team | null): IntentEra['era'] {
+    const lastCurrent = knowledgeBaseService.currentSeason - 1;
+
+    if (intent.season) {
+      return intent.season < lastCurrent ? 'vintage' : 'current';
+    }
+    if (intent.era) {
+      return intent.era;
+    }
+    if (driver && team) {
+      const stints = driver.teams.filter((stint) => stint.team === team.id);
+      return stints.some((stint) => stint.to === null || stint.to >= lastCurrent) ? 'current' : 'vintage';
+    }
+    return 'current';
+  }
+
+  private inSeason(stint: F1DriverStint, season: number): boolean {
+    return season >= stint.from && (stint.to === null || season <= stint.to);
+  }
+
+  /**
+   * "Toro Rosso 2015-2016, Red Bull 2016-present", using the name each team raced under
+   */
+  private describeStints(stints: F1DriverStint[]): string {
+    return stints
+      .map((stint) => {
+        const name = knowledgeBaseService.getTeamNameInSeason(stint.team, stint.from) || stint.team;
+        const years = stint.to === stint.from ? `${stint.from}` : `${stint.from}-${stint.to ?? 'present'}`;
+        return `${name} ${years}`;
+      })
+      .join(', ');
+  }
+}
+
+export const eraService = new EraService();
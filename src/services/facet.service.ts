@@ -0,0 +1,168 @@
+/**
+ * Facet Service
+ * Counts teams, drivers, categories, price buckets, sources and availability across search results,
+ * and narrows results to the selected facet values
+ */
+
+import { knowledgeBaseService } from './knowledge-base.service';
+import { config } from '../config';
+import { normalizeText } from '../utils/helpers';
+import { detectProductTypes, getCategoryForProductType } from '../config/product-taxonomy';
+import type { Product, AvailabilityStatus, FacetField, FacetValue, FacetSelection, SearchFacets } from '../types';
+
+export const FACET_FIELDS: FacetField[] = ['teams', 'drivers', 'categories', 'prices', 'sources', 'availability'];
+
+const AVAILABILITY_LABELS: Record<AvailabilityStatus, string> = {
+  IN_STOCK: 'In stock',
+  LIMITED_STOCK: 'Limited stock',
+  OUT_OF_STOCK: 'Out of stock',
+};
+
+type ProductFacetValues = Record<FacetField, string[]>;
+
+class FacetService {
+  /**
+   * Compute facets over the full result set and keep the products matching the selection
+   * Counts for a facet ignore that facet's own selection, so the user can still switch to another value
+   */
+  apply(products: Product[], selection: FacetSelection = {}): { products: Product[]; facets: SearchFacets } {
+    const productValues = products.map((product) => this.getProductValues(product));
+    const selected = {} as Record<FacetField, Set<string>>;
+    FACET_FIELDS.forEach((field) => {
+      selected[field] = new Set((selection[field] || []).map((value) => normalizeText(this.canonicalValue(field, value))));
+    });
+
+    const matches = (values: ProductFacetValues, field: FacetField) =>
+      selected[field].size === 0 || values[field].some((value) => selected[field].has(normalizeText(value)));
+
+    const facets = {} as SearchFacets;
+    FACET_FIELDS.forEach((field) => {
+      const counts = new Map<string, number>();
+
+      productValues.forEach((values) => {
+        if (!FACET_FIELDS.every((other) => other === field || matches(values, other))) return;
+        values[field].forEach((value) => counts.set(value, (counts.get(value) || 0) + 1));
+      });
+
+      // Keep selected values listed when nothing matches them, so they can be cleared
+      (selection[field] || []).forEach((value) => {
+        const canonical = this.canonicalValue(field, value);
+        if (!Array.from(counts.keys()).some((v) => normalizeText(v) === normalizeText(canonical))) {
+          counts.set(canonical, 0);
+        }
+      });
+
+      facets[field] = this.toFacetValues(field, counts, selected[field]);
+    });
+
+    const narrowed = products.filter((_, index) => FACET_FIELDS.every((field) => matches(productValues[index], field)));
+    return { products: narrowed, facets };
+  }
+
+  /**
+   * Validate facet selections from a request, returning an error message or null
+   */
+  getSelectionError(selection: unknown): string | null {
+    if (typeof selection !== 'object' || selection === null || Array.isArray(selection)) {
+      return 'facets must be an object mapping facet names to arrays of values';
+    }
+
+    for (const [field, values] of Object.entries(selection)) {
+      if (!FACET_FIELDS.includes(field as FacetField)) {
+        return `Unknown facet "${field}". Valid facets: ${FACET_FIELDS.join(', ')}`;
+      }
+      if (!Array.isArray(values) || values.some((value) => typeof value !== 'string')) {
+        return `facets.${field} must be an array of strings`;
+      }
+
+      const valid = field === 'prices' ? this.getPriceBuckets().map((b) => b.value)
+        : field === 'availability' ? Object.keys(AVAILABILITY_LABELS)
+          : null;
+      const invalid = valid ? values.find((value: string) => !valid.includes(value)) : undefined;
+      if (valid && invalid !== undefined) {
+        return `Unknown ${field} value "${invalid}". Valid values: ${valid.join(', ')}`;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Facet values of one product; a clustered product counts for every store with an offer
+   */
+  private getProductValues(product: Product): ProductFacetValues {
+    const { teams, drivers } = knowledgeBaseService.resolve(`${product.name} ${product.description || ''}`);
+    const categories = detectProductTypes(product.name).map(getCategoryForProductType);
+    const bucket = product.price.amount > 0
+      ? this.getPriceBuckets().find((b) => product.price.amount >= b.min && (b.max === null || product.price.amount < b.max))
+      : undefined;
+    const sources = product.offers ? product.offers.map((offer) => offer.source) : [product.source];
+
+    return {
+      teams: teams.map((team) => team.name),
+      drivers: drivers.map((driver) => driver.fullName),
+      categories: Array.from(new Set(categories)),
+      prices: bucket ? [bucket.value] : [],
+      sources: Array.from(new Set(sources)),
+      availability: [product.availability],
+    };
+  }
+
+  /**
+   * Price buckets from config.facets.priceBuckets ("0-25", "25-50", ..., "200+")
+   * Amounts are bucketed as listed; currencies are not converted
+   */
+  private getPriceBuckets(): Array<{ value: string; label: string; min: number; max: number | null }> {
+    const bounds = config.facets.priceBuckets;
+
+    return [0, ...bounds].map((min, index) => {
+      const max = index < bounds.length ? bounds[index] : null;
+      if (max === null) return { value: `${min}+`, label: `${min} and over`, min, max };
+      return { value: `${min}-${max}`, label: min === 0 ? `Under ${max}` : `${min} - ${max}`, min, max };
+    });
+  }
+
+  /**
+   * Resolve a selected team or driver to its facet value ("RBR" -> "Red Bull", "Max" -> "Max Verstappen")
+   */
+  private canonicalValue(field: FacetField, value: string): string {
+    if (field === 'teams') return knowledgeBaseService.resolveTeam(value)?.name || value;
+    if (field === 'drivers') return knowledgeBaseService.resolveDriver(value)?.fullName || value;
+    return value;
+  }
+
+  private toFacetValues(field: FacetField, counts: Map<string, number>, selected: Set<string>): FacetValue[] {
+    const values = Array.from(counts.entries()).map(([value, count]) => ({
+      value,
+      label: this.getLabel(field, value),
+      count,
+      selected: selected.has(normalizeText(value)),
+    }));
+
+    // Price buckets and availability keep their natural order
+    if (field === 'prices') {
+      const order = this.getPriceBuckets().map((b) => b.value);
+      return values.sort((a, b) => order.indexOf(a.value) - order.indexOf(b.value));
+    }
+    if (field === 'availability') {
+      const order = Object.keys(AVAILABILITY_LABELS);
+      return values.sort((a, b) => order.indexOf(a.value) - order.indexOf(b.value));
+    }
+    return values.sort((a, b) => b.count - a.count || a.label.localeCompare(b.label));
+  }
+
+  private getLabel(field: FacetField, value: string): string {
+    switch (field) {
+      case 'categories':
+        return value.charAt(0).toUpperCase() + value.slice(1);
+      case 'prices':
+        return this.getPriceBuckets().find((b) => b.value === value)?.label || value;
+      case 'availability':
+        return AVAILABILITY_LABELS[value as AvailabilityStatus] || value;
+      default:
+        return value;
+    }
+  }
+}
+
+export const facetService = new FacetService();
@@ -0,0 +1,262 @@
+/**
+ * Knowledge Base Service
+ * Resolves free text to canonical F1 teams and drivers using the bundled dataset
+ */
+
+import knowledgeBaseData from '../data/f1-knowledge-base.json';
+import { logger } from '../utils/logger';
+import { escapeRegExp, normalizeText } from '../utils/helpers';
+import type {
+  F1KnowledgeBase,
+  F1Team,
+  F1Driver,
+  F1EntityType,
+  F1EntityMention,
+  SearchIntent,
+} from '../types';
+
+interface AliasEntry {
+  type: F1EntityType;
+  id: string;
+  name: string;
+  alias: string;
+  pattern: RegExp;
+}
+
+interface ResolvedEntities {
+  teams: F1Team[];
+  drivers: F1Driver[];
+  mentions: F1EntityMention[];
+}
+
+class KnowledgeBaseService {
+  private data: F1KnowledgeBase;
+  private teams: Map<string, F1Team>;
+  private drivers: Map<string, F1Driver>;
+  private aliases: AliasEntry[];
+
+  constructor(data: F1KnowledgeBase) {
+    this.data = data;
+    this.teams = new Map(data.teams.map((team) => [team.id, team]));
+    this.drivers = new Map(data.drivers.map((driver) => [driver.id, driver]));
+
+    // Longest alias first, so "oracle red bull racing" wins over "red bull"
+    this.aliases = [
+      ...data.teams.flatMap((team) => this.teamAliases(team).map((alias) => ({ type: 'team' as const, id: team.id, name: team.name, alias }))),
+      ...data.drivers.flatMap((driver) => this.driverAliases(driver).map((alias) => ({ type: 'driver' as const, id: driver.id, name: driver.name, alias }))),
+    ]
+      .sort((a, b) => b.alias.length - a.alias.length)
+      .map((entry) => ({ ...entry, pattern: this.aliasPattern(entry.alias) }));
+
+    logger.info('F1 knowledge base loaded', {
+      version: data.version,
+      teams: data.teams.length,
+      drivers: data.drivers.length,
+      aliases: this.aliases.length,
+    });
+  }
+
+  /**
+   * Dataset version, bumped whenever the bundled data changes
+   */
+  get version(): string {
+    return this.data.version;
+  }
+
+  get currentSeason(): number {
+    return this.data.currentSeason;
+  }
+
+  getTeams(): F1Team[] {
+    return this.data.teams;
+  }
+
+  getDrivers(): F1Driver[] {
+    return this.data.drivers;
+  }
+
+  getTeam(id: string): F1Team | null {
+    return this.teams.get(id) || null;
+  }
+
+  getDriver(id: string): F1Driver | null {
+    return this.drivers.get(id) || null;
+  }
+
+  /**
+   * Every team and driver alias, normalized
+   */
+  getAliases(): string[] {
+    return Array.from(new Set(this.aliases.map((entry) => entry.alias)));
+  }
+
+  /**
+   * Find every team and driver mentioned in free text
+   * Offsets refer to normalizeText(text); overlapping shorter aliases are skipped
+   */
+  findMentions(text: string): F1EntityMention[] {
+    const normalized = normalizeText(text);
+    const mentions: F1EntityMention[] = [];
+
+    for (const { type, id, name, alias, pattern } of this.aliases) {
+      pattern.lastIndex = 0;
+      let match: RegExpExecArray | null;
+
+      while ((match = pattern.exec(normalized)) !== null) {
+        const start = match.index + match[1].length;
+        const end = start + alias.length;
+
+        if (mentions.some((m) => start < m.end && end > m.start)) continue;
+        mentions.push({ type, id, name, alias, start, end });
+      }
+    }
+
+    return mentions.sort((a, b) => a.start - b.start);
+  }
+
+  /**
+   * Resolve free text to the canonical teams and drivers it mentions
+   */
+  resolve(text: string): ResolvedEntities {
+    const mentions = this.findMentions(text);
+    const idsOf = (type: F1EntityType) => Array.from(new Set(mentions.filter((m) => m.type === type).map((m) => m.id)));
+
+    return {
+      teams: idsOf('team').map((id) => this.teams.get(id)!),
+      drivers: idsOf('driver').map((id) => this.drivers.get(id)!),
+      mentions,
+    };
+  }
+
+  /**
+   * Resolve a team name, alias or historical name ("Racing Point" -> Aston Martin)
+   */
+  resolveTeam(text: string): F1Team | null {
+    return this.resolveEntity(text, 'team') as F1Team | null;
+  }
+
+  /**
+   * Resolve a driver name, nickname or number ("Checo", "Pérez" -> Perez)
+   */
+  resolveDriver(text: string): F1Driver | null {
+    return this.resolveEntity(text, 'driver') as F1Driver | null;
+  }
+
+  /**
+   * Check whether text mentions the given team or driver under any of its aliases
+   * Names the knowledge base does not know fall back to a plain substring match
+   */
+  mentions(text: string, type: F1EntityType, name: string): boolean {
+    const normalized = normalizeText(text);
+    const entity = type === 'team' ? this.resolveTeam(name) : this.resolveDriver(name);
+
+    if (!entity) {
+      return normalized.includes(normalizeText(name));
+    }
+
+    return this.aliases.some((entry) => {
+      if (entry.type !== type || entry.id !== entity.id) return false;
+      entry.pattern.lastIndex = 0;
+      return entry.pattern.test(normalized);
+    });
+  }
+
+  /**
+   * Replace team and driver names in an intent with their canonical names
+   * Unknown names are kept as given
+   */
+  canonicalizeIntent(intent: SearchIntent): SearchIntent {
+    const team = (name: string) => this.resolveTeam(name)?.name || name;
+    const driver = (name: string) => this.resolveDriver(name)?.name || name;
+    const unique = (names: string[]) => Array.from(new Set(names));
+
+    const canonical: SearchIntent = { ...intent };
+    if (intent.team) canonical.team = team(intent.team);
+    if (intent.driver) canonical.driver = driver(intent.driver);
+    if (intent.excludedTeams) canonical.excludedTeams = unique(intent.excludedTeams.map(team));
+    if (intent.excludedDrivers) canonical.excludedDrivers = unique(intent.excludedDrivers.map(driver));
+
+    return canonical;
+  }
+
+  /**
+   * Name a team raced under in a given season ("aston-martin", 2019 -> "Racing Point")
+   */
+  getTeamNameInSeason(teamId: string, season: number): string | null {
+    const team = this.teams.get(teamId);
+    const era = team?.names.find((n) => season >= n.from && (n.to === null || season <= n.to));
+    return era ? era.name : null;
+  }
+
+  /**
+   * Teams a driver raced for in a given season (more than one after a mid-season swap)
+   */
+  getDriverTeams(driverId: string, season: number): F1Team[] {
+    const driver = this.drivers.get(driverId);
+    if (!driver) return [];
+
+    return driver.teams
+      .filter((stint) => season >= stint.from && (stint.to === null || season <= stint.to))
+      .map((stint) => this.teams.get(stint.team))
+      .filter((team): team is F1Team => !!team);
+  }
+
+  /**
+   * Drivers who raced for a team in a given season
+   */
+  getTeamDrivers(teamId: string, season: number): F1Driver[] {
+    return this.data.drivers.filter((driver) =>
+      driver.teams.some((stint) => stint.team === teamId && season >= stint.from && (stint.to === null || season <= stint.to))
+    );
+  }
+
+  /**
+   * Exact alias match on the whole text first, then the first mention in it
+   */
+  private resolveEntity(text: string, type: F1EntityType): F1Team | F1Driver | null {
+    const normalized = normalizeText(text).replace(/^#/, '');
+    const lookup = type === 'team' ? this.teams : this.drivers;
+
+    const exact = this.aliases.find((entry) => entry.type === type && entry.alias === normalized);
+    if (exact) return lookup.get(exact.id) || null;
+
+    // Numbers get reused, so prefer a driver on the current grid
+    if (type === 'driver' && /^\d{1,2}$/.test(normalized)) {
+      const candidates = this.data.drivers.filter((driver) => driver.number === parseInt(normalized, 10));
+      return candidates.find((driver) => driver.teams.some((stint) => stint.to === null)) || candidates[0] || null;
+    }
+
+    const mention = this.findMentions(normalized).find((m) => m.type === type);
+    return mention ? lookup.get(mention.id) || null : null;
+  }
+
+  /**
+   * All aliases of a team, including every name it has raced under
+   * Historical names only count through their aliases ("RB" alone is too ambiguous)
+   */
+  private teamAliases(team: F1Team): string[] {
+    return this.uniqueAliases([
+      team.name,
+      team.fullName,
+      ...team.aliases,
+      ...team.names.flatMap((n) => n.aliases),
+    ]);
+  }
+
+  private driverAliases(driver: F1Driver): string[] {
+    return this.uniqueAliases([driver.name, driver.fullName, ...driver.aliases]);
+  }
+
+  private uniqueAliases(aliases: string[]): string[] {
+    return Array.from(new Set(aliases.map(normalizeText).filter(Boolean)));
+  }
+
+  /**
+   * Whole-word pattern for an alias in normalized text
+   */
+  private aliasPattern(alias: string): RegExp {
+    return new RegExp(`(^|[^a-z0-9])(${escapeRegExp(alias)})(?=[^a-z0-9]|$)`, 'g');
+  }
+}
+
+export const knowledgeBaseService = new KnowledgeBaseService(knowledgeBaseData as F1KnowledgeBase);
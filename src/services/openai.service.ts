@@ -6,58 +6,67 @@
 import OpenAI from 'openai';
 import { config } from '../config';
 import { logger } from '../utils/logger';
-import type { SearchIntent, Product, IntentExtractionPrompt, ResponseGenerationPrompt } from '../types';
+import { knowledgeBaseService } from './knowledge-base.service';
+import { getProductTypeLabel } from '../config/product-taxonomy';
+import { searchIntentResponseFormat, validatedSearchIntentSchema, toSearchIntent } from '../schemas/search-intent.schema';
+import type { SearchIntent, Product, IntentContext, MessageRoute, RouteDecision, IntentExtractionPrompt, ResponseGenerationPrompt } from '../types';
 
-class OpenAIService {
+const EXCLUSION_FIELDS = ['excludedTeams', 'excludedDrivers', 'excludedProductTypes', 'excludedTerms'] as const;
+
+/**
+ * Exported for tools that need their own client (the intent evaluation replays recorded responses);
+ * the app uses the openAIService singleton
+ */
+export class OpenAIService {
   private client: OpenAI;
 
-  constructor() {
-    this.client = new OpenAI({
+  constructor(client?: OpenAI) {
+    this.client = client || new OpenAI({
       apiKey: config.openai.apiKey,
     });
   }
 
   /**
-   * Extract search intent from user query
+   * Classify a chat message into a route using the cheap router model
+   * Returns null when the model is unavailable or its answer is unusable
    */
-  async extractIntent(userQuery: string): Promise<SearchIntent> {
-    try {
-      logger.info('Extracting search intent', { userQuery });
-
-        const response = await this.client.chat.completions.create({
-          model: config.openai.model,
-          messages: [
-            {
-              role: 'developer',
-              content: `You are an AI assistant specialized in understanding F1 merchandise search queries.
-Extract search intent and return ONLY valid JSON with this exact structure:
-{
-  "item": "product type (e.g., hoodie, cap, t-shirt, jacket, model, flag)",
-  "team": "F1 team name (e.g., Red Bull, Ferrari, Mercedes, McLaren, Aston Martin, Alpine, Williams, etc.)",
-  "driver": "driver name (e.g., Verstappen, Hamilton, Leclerc, Russell, Alonso, Norris, etc.)",
-  "budget": number (maximum price in dollars, only if mentioned),
-  "category": "category (e.g., clothing, accessories, collectibles, models)"
-}
+  async classifyMessage(message: string, hasPreviousSearch: boolean): Promise<RouteDecision | null> {
+    if (!config.openai.apiKey) {
+      return null;
+    }
 
-Only include fields that are clearly mentioned or can be confidently inferred. Use null for missing fields.
-Return ONLY the JSON object, no additional text.`,
-            },
-            {
-              role: 'user',
-              content: userQuery,
-            },
-          ],
-          
-          store: true,
-        });
+    try {
+      const response = await this.client.chat.completions.create({
+        model: config.openai.routerModel,
+        messages: [
+          {
+            role: 'developer',
+            content: `You route messages for an F1 merchandise shopping assistant.
+Classify the message into exactly one route:
+- "product_search": the user wants to find or buy merchandise (clothing, caps, models, collectibles, gifts)
+- "follow_up": the user refines the previous product search (e.g. "cheaper ones", "what about Ferrari instead?", "in red")
+- "general_chat": greetings, F1 trivia, racing history, results, drivers or teams with no shopping intent
+- "out_of_scope": anything unrelated to F1 or shopping
+
+Only use "follow_up" when a previous search exists.
+Return ONLY valid JSON: {"route": "...", "confidence": number between 0 and 1, "reason": "short explanation"}`,
+          },
+          {
+            role: 'user',
+            content: `Previous search exists: ${hasPreviousSearch ? 'yes' : 'no'}
+Message: ${message}`,
+          },
+        ],
+        response_format: { type: 'json_object' },
+        store: true,
+      });
 
       const content = response.choices[0]?.message?.content;
       const usage = response.usage;
-      
+
       // Log token usage
-      logger.info('OpenAI API Response - Intent Extraction', {
+      logger.info('OpenAI API Response - Message Routing', {
         model: response.model,
-        resp: response,
         usage: {
           prompt_tokens: usage?.prompt_tokens || 0,
           completion_tokens: usage?.completion_tokens || 0,
@@ -67,22 +76,224 @@ Return ONLY the JSON object, no additional text.`,
       });
 
       if (!content) {
-        logger.warn('Empty response from OpenAI');
-        return {};
+        return null;
+      }
+
+      const parsed = JSON.parse(content);
+      const routes: MessageRoute[] = ['product_search', 'follow_up', 'general_chat', 'out_of_scope'];
+
+      if (!routes.includes(parsed.route)) {
+        logger.warn('Router returned an unknown route', { content });
+        return null;
       }
 
+      const confidence = typeof parsed.confidence === 'number'
+        ? Math.min(Math.max(parsed.confidence, 0), 1)
+        : 0.5;
+
+      return {
+        route: parsed.route,
+        confidence,
+        reason: typeof parsed.reason === 'string' ? parsed.reason : 'Classified by router model',
+        method: 'llm',
+      };
+    } catch (error) {
+      logger.error('Error classifying message with OpenAI', error);
+      return null;
+    }
+  }
+
+  /**
+   * Extract search intent from user query
+   * When a previous intent is supplied, follow-ups are merged into it
+   * Returns null when every attempt fails so callers can fall back
+   */
+  async extractIntent(userQuery: string, context: IntentContext = {}): Promise<SearchIntent | null> {
+    const { previousIntent } = context;
+    const maxAttempts = config.openai.intentMaxAttempts;
+
+    logger.info('Extracting search intent', { userQuery, hasPreviousIntent: !!previousIntent });
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
       try {
-        const intent = JSON.parse(content);
-        logger.info('Intent extracted successfully', { intent });
+        // Canonical names keep "Checo" and "Sergio Pérez" from looking like different drivers
+        const extracted = knowledgeBaseService.canonicalizeIntent(await this.requestIntent(userQuery, context));
+        const intent = previousIntent ? this.mergeIntent(previousIntent, extracted) : extracted;
+        logger.info('Intent extracted successfully', { intent, extracted, attempt });
         return intent;
-      } catch (parseError) {
-        logger.error('Failed to parse intent JSON', parseError, { content });
-        return {};
+      } catch (error) {
+        // Schema violations, refusals and API errors are all retried
+        logger.warn('Intent extraction attempt failed', {
+          attempt,
+          maxAttempts,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
       }
-    } catch (error) {
-      logger.error('Error extracting intent from OpenAI', error);
-      return {};
     }
+
+    logger.error('Error extracting intent from OpenAI', new Error(`Intent extraction failed after ${maxAttempts} attempts`));
+    return null;
+  }
+
+  /**
+   * Request a schema-validated intent from the model
+   * Throws when the output is missing, refused or fails validation
+   */
+  private async requestIntent(userQuery: string, context: IntentContext): Promise<SearchIntent> {
+    const response = await this.client.chat.completions.create({
+      model: config.openai.model,
+      messages: [
+        {
+          role: 'developer',
+          content: `You are an AI assistant specialized in understanding F1 merchandise search queries.
+Extract the search intent from the user's message.
+
+- item: the product in the user's words (e.g. hoodie, cap, t-shirt, jacket, model, flag)
+- productType: the closest canonical type for the item
+- team: F1 team name (e.g. Red Bull, Ferrari, Mercedes, McLaren, Aston Martin, Alpine, Williams), including historical names such as Racing Point or Toro Rosso
+- driver: driver surname (e.g. Verstappen, Hamilton, Leclerc, Russell, Alonso, Norris); resolve nicknames like "Checo" to Perez
+- minPrice / maxPrice / currency: price range, only if mentioned ("under £50" is maxPrice 50, currency GBP)
+- size, colour, season (year), condition (new or used)
+- era: "vintage" when the user asks for retro or vintage merchandise or a past decade ("1990s Williams jacket") rather than one season
+- excludedTeams / excludedDrivers: teams or drivers the user explicitly does not want ("a team jacket but not Ferrari")
+- excludedProductTypes: product types the user does not want ("Hamilton gear, no caps" is excludedProductTypes ["cap"])
+- excludedTerms: any other words to avoid ("nothing signed", "no pink")
+Never put an excluded team, driver or product in team, driver, item or productType.
+
+Only include fields that are clearly mentioned or can be confidently inferred. Use null for missing fields and [] for no exclusions.
+If a previous search is provided and the message is a follow-up (e.g. "cheaper ones", "what about Ferrari instead?"),
+return only the fields the follow-up changes. For "cheaper" requests set maxPrice below the previous price range.`,
+        },
+        {
+          role: 'user',
+          content: this.buildIntentUserMessage(userQuery, context),
+        },
+      ],
+      response_format: searchIntentResponseFormat,
+      store: true,
+    });
+
+    const message = response.choices[0]?.message;
+    const usage = response.usage;
+
+    // Log token usage
+    logger.info('OpenAI API Response - Intent Extraction', {
+      model: response.model,
+      usage: {
+        prompt_tokens: usage?.prompt_tokens || 0,
+        completion_tokens: usage?.completion_tokens || 0,
+        total_tokens: usage?.total_tokens || 0
+      },
+      response_length: message?.content?.length || 0
+    });
+
+    if (message?.refusal) {
+      throw new Error(`Model refused intent extraction: ${message.refusal}`);
+    }
+
+    if (!message?.content) {
+      throw new Error('Empty response from OpenAI');
+    }
+
+    const validated = validatedSearchIntentSchema.safeParse(JSON.parse(message.content));
+    if (!validated.success) {
+      throw new Error(`Intent failed validation: ${validated.error.issues.map((i) => i.message).join(', ')}`);
+    }
+
+    return toSearchIntent(validated.data);
+  }
+
+  /**
+   * Merge a follow-up intent into the previous one
+   * Fields stated in the follow-up win; switching team or driver drops the stale counterpart,
+   * except the team when the new driver races for it ("Hamilton instead" of Leclerc keeps Ferrari)
+   */
+  mergeIntent(previous: SearchIntent, followUp: SearchIntent): SearchIntent {
+    const merged: SearchIntent = { ...previous };
+    const changed = (key: keyof SearchIntent) =>
+      followUp[key] !== undefined && followUp[key] !== null && followUp[key] !== '';
+
+    if (changed('team') && followUp.team !== previous.team && !changed('driver')) {
+      delete merged.driver;
+    }
+    if (changed('driver') && followUp.driver !== previous.driver && !changed('team') &&
+      !this.racesFor(followUp.driver!, previous.team, followUp.season ?? previous.season)) {
+      delete merged.team;
+    }
+    if (changed('item') && followUp.item !== previous.item && !changed('productType')) {
+      delete merged.productType;
+      delete merged.category;
+    }
+
+    (Object.keys(followUp) as (keyof SearchIntent)[]).forEach((key) => {
+      if (changed(key)) {
+        (merged as Record<string, unknown>)[key] = followUp[key];
+      }
+    });
+
+    // Exclusions accumulate across turns
+    EXCLUSION_FIELDS.forEach((key) => {
+      const values = [...(previous[key] || []), ...(followUp[key] || [])] as string[];
+      if (values.length > 0) {
+        (merged as Record<string, unknown>)[key] = Array.from(new Set(values));
+      }
+    });
+
+    // Asking for something again lifts its exclusion ("actually, Ferrari is fine")
+    const lift = (key: 'excludedTeams' | 'excludedDrivers', value?: string) => {
+      if (!value || !merged[key]) return;
+      merged[key] = merged[key]!.filter((v) => v.toLowerCase() !== value.toLowerCase());
+      if (merged[key]!.length === 0) delete merged[key];
+    };
+    lift('excludedTeams', followUp.team);
+    lift('excludedDrivers', followUp.driver);
+    if (followUp.productType && merged.excludedProductTypes) {
+      merged.excludedProductTypes = merged.excludedProductTypes.filter((t) => t !== followUp.productType);
+      if (merged.excludedProductTypes.length === 0) delete merged.excludedProductTypes;
+    }
+
+    logger.debug('Merged follow-up intent', { previous, followUp, merged });
+    return merged;
+  }
+
+  /**
+   * Whether a driver raced for a team in a season, the current one when none is given
+   */
+  private racesFor(driver: string, team: string | undefined, season?: number): boolean {
+    const driverId = knowledgeBaseService.resolveDriver(driver)?.id;
+    const teamId = team ? knowledgeBaseService.resolveTeam(team)?.id : undefined;
+    if (!driverId || !teamId) return false;
+
+    return knowledgeBaseService
+      .getDriverTeams(driverId, season ?? knowledgeBaseService.currentSeason)
+      .some((t) => t.id === teamId);
+  }
+
+  /**
+   * Build the user message for intent extraction, including prior search context
+   */
+  private buildIntentUserMessage(userQuery: string, context: IntentContext): string {
+    const { previousIntent, previousProducts = [], history = [] } = context;
+
+    if (!previousIntent) {
+      return userQuery;
+    }
+
+    const prices = previousProducts.map((p) => p.price.amount).filter((amount) => amount > 0);
+    const priceRange = prices.length > 0
+      ? `${Math.min(...prices).toFixed(2)} - ${Math.max(...prices).toFixed(2)}`
+      : 'unknown';
+    const recentTurns = history
+      .slice(-4)
+      .map((m) => `${m.role}: ${m.content}`)
+      .join('\n');
+
+    return `Previous search intent: ${JSON.stringify(previousIntent)}
+Previous results price range: ${priceRange}
+Recent conversation:
+${recentTurns || 'None'}
+
+New message: ${userQuery}`;
   }
 
   /**
@@ -101,42 +312,13 @@ Return ONLY the JSON object, no additional text.`,
         sources 
       });
 
-      const productInfo = products
-        .slice(0, 3)
-        .map((p) => `${p.name} - ${p.price.formattedAmount} (${p.source})`)
-        .join(', ');
-
       const response = await this.client.chat.completions.create({
         model: config.openai.model,
-        messages: [
-          {
-            role: 'developer',
-            content: `You are a helpful and enthusiastic F1 merchandise shopping assistant.
-Generate a friendly, conversational response that:
-1. Acknowledges the user's request
-2. Mentions the number of products found
-3. Highlights key products (if any)
-4. Mentions the sources searched
-5. Offers to help with more specific searches if needed
-6. Keeps the response under 100 words
-7. Uses an enthusiastic, helpful tone
-
-Be natural and conversational, like a real shopping assistant would be.`,
-          },
-          {
-            role: 'user',
-            content: `User asked: "${userQuery}"
-Found ${products.length} products
-Top products: ${productInfo || 'None'}
-Sources searched: ${sources.join(', ')}
-User intent: ${JSON.stringify(intent)}`,
-          },
-        ],
+        messages: this.buildResponseMessages(userQuery, products, intent, sources),
         store: true,
       });
 
-      const summary = response.choices[0]?.message?.content || 
-        `I found ${products.length} F1 merchandise items${sources.length > 0 ? ` from ${sources.join(', ')}` : ''} for you!`;
+      const summary = response.choices[0]?.message?.content || this.buildFallbackSummary(products, intent, sources);
 
       const usage = response.usage;
       
@@ -157,10 +339,161 @@ User intent: ${JSON.stringify(intent)}`,
       return summary;
     } catch (error) {
       logger.error('Error generating response from OpenAI', error);
-      return `I found ${products.length} F1 merchandise items for you!`;
+      return this.buildFallbackSummary(products, intent, sources);
+    }
+  }
+
+  /**
+   * Stream the friendly response summary token-by-token
+   * Returns the full summary once the stream completes
+   */
+  async streamResponse(
+    userQuery: string,
+    products: Product[],
+    intent: SearchIntent,
+    sources: string[],
+    onToken: (token: string) => void
+  ): Promise<string> {
+    const fallback = this.buildFallbackSummary(products, intent, sources);
+    let summary = '';
+
+    try {
+      logger.info('Streaming AI response', {
+        userQuery,
+        productCount: products.length,
+        sources
+      });
+
+      const stream = await this.client.chat.completions.create({
+        model: config.openai.model,
+        messages: this.buildResponseMessages(userQuery, products, intent, sources),
+        stream: true,
+        stream_options: { include_usage: true },
+        store: true,
+      });
+
+      let usage: OpenAI.CompletionUsage | undefined;
+
+      for await (const chunk of stream) {
+        const token = chunk.choices[0]?.delta?.content;
+        if (token) {
+          summary += token;
+          onToken(token);
+        }
+        if (chunk.usage) {
+          usage = chunk.usage;
+        }
+      }
+
+      // Log token usage
+      logger.info('OpenAI API Response - Streamed Product Summary', {
+        usage: {
+          prompt_tokens: usage?.prompt_tokens || 0,
+          completion_tokens: usage?.completion_tokens || 0,
+          total_tokens: usage?.total_tokens || 0
+        },
+        response_length: summary.length,
+        product_count: products.length
+      });
+
+      if (!summary) {
+        onToken(fallback);
+        return fallback;
+      }
+
+      return summary;
+    } catch (error) {
+      logger.error('Error streaming response from OpenAI', error);
+      // Keep whatever was already streamed to the client
+      if (summary) return summary;
+      onToken(fallback);
+      return fallback;
     }
   }
 
+  /**
+   * Build the prompt messages for the product summary
+   */
+  private buildResponseMessages(
+    userQuery: string,
+    products: Product[],
+    intent: SearchIntent,
+    sources: string[]
+  ): OpenAI.Chat.ChatCompletionMessageParam[] {
+    const productInfo = products
+      .slice(0, 3)
+      .map((p) => {
+        // Clustered products carry the cheapest offer; say when other stores sell it too
+        const stores = p.offers && p.offers.length > 1 ? `, cheapest of ${p.offers.length} stores` : '';
+        const alternative = p.match && !p.match.exact
+          ? `, close alternative: ${p.match.violations.map((v) => v.reason).join('; ')}`
+          : '';
+        return `${p.name} - ${p.price.formattedAmount} (${p.source}${stores}${alternative})`;
+      })
+      .join(', ');
+    const exclusions = this.describeExclusions(intent);
+    const { exact, alternatives } = this.countMatches(products);
+
+    return [
+      {
+        role: 'developer',
+        content: `You are a helpful and enthusiastic F1 merchandise shopping assistant.
+Generate a friendly, conversational response that:
+1. Acknowledges the user's request
+2. Mentions the number of products found
+3. Highlights key products (if any)
+4. Mentions the sources searched
+5. Confirms anything the user asked to leave out was excluded
+6. Keeps exact matches apart from close alternatives, saying how the alternatives differ from the request
+7. Offers to help with more specific searches if needed
+8. Keeps the response under 100 words
+9. Uses an enthusiastic, helpful tone
+
+Be natural and conversational, like a real shopping assistant would be.`,
+      },
+      {
+        role: 'user',
+        content: `User asked: "${userQuery}"
+Found ${products.length} products (${exact} exact matches, ${alternatives} close alternatives)
+Top products: ${productInfo || 'None'}
+Sources searched: ${sources.join(', ')}
+Excluded at the user's request: ${exclusions.join(', ') || 'Nothing'}
+User intent: ${JSON.stringify(intent)}`,
+      },
+    ];
+  }
+
+  /**
+   * Summary used when the model returns nothing or fails
+   */
+  private buildFallbackSummary(products: Product[], intent: SearchIntent, sources: string[]): string {
+    const exclusions = this.describeExclusions(intent);
+    const { exact, alternatives } = this.countMatches(products);
+    const matches = alternatives > 0 ? ` (${exact} exact matches and ${alternatives} close alternatives)` : '';
+    return `I found ${products.length} F1 merchandise items${matches}${sources.length > 0 ? ` from ${sources.join(', ')}` : ''} for you` +
+      `${exclusions.length > 0 ? `, leaving out ${exclusions.join(', ')}` : ''}!`;
+  }
+
+  /**
+   * Count exact matches and close alternatives; products checked against no constraints count as exact
+   */
+  private countMatches(products: Product[]): { exact: number; alternatives: number } {
+    const alternatives = products.filter((p) => p.match && !p.match.exact).length;
+    return { exact: products.length - alternatives, alternatives };
+  }
+
+  /**
+   * Human-readable list of everything the intent excludes
+   */
+  private describeExclusions(intent: SearchIntent): string[] {
+    return [
+      ...(intent.excludedTeams || []),
+      ...(intent.excludedDrivers || []),
+      ...(intent.excludedProductTypes || []).map(getProductTypeLabel),
+      ...(intent.excludedTerms || []).map((term) => `"${term}"`),
+    ];
+  }
+
   /**
    * Generate general conversational response (not product-related)
    */
@@ -299,10 +632,17 @@ ${htmlContent.substring(0, 12000)}`;
     // Fallback: build from intent
     const terms: string[] = ['Formula 1', 'F1'];
 
+    if (intent.season) terms.push(String(intent.season));
     if (intent.team) terms.push(intent.team);
     if (intent.driver) terms.push(intent.driver);
-    if (intent.item) terms.push(intent.item);
-    if (intent.category) terms.push(intent.category);
+    if (intent.colour) terms.push(intent.colour);
+    if (intent.item) {
+      terms.push(intent.item);
+    } else if (intent.productType && intent.productType !== 'other') {
+      terms.push(intent.productType.replace('-', ' '));
+    } else if (intent.category) {
+      terms.push(intent.category);
+    }
 
     const query = terms.join(' ');
     logger.debug('Built search query from intent', { intent, query });
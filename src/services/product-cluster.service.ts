@@ -0,0 +1,185 @@
+/**
+ * Product Cluster Service
+ * Groups listings of the same product from different stores into one product with an offer per store
+ */
+
+import { knowledgeBaseService } from './knowledge-base.service';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+import { calculateSimilarity, tokenize } from '../utils/helpers';
+import { detectProductTypes } from '../config/product-taxonomy';
+import type { Product, ProductOffer, ProductType } from '../types';
+
+/** Words stores add to titles that say nothing about which product it is */
+const TITLE_NOISE = new Set(['f1', 'formula', 'official', 'team', 'merchandise', 'merch', 'new', 'licensed', 'authentic']);
+
+interface Listing {
+  product: Product;
+  title: string;
+  sortedTitle: string;
+  teams: Set<string>;
+  drivers: Set<string>;
+  productTypes: Set<ProductType>;
+  seasons: Set<string>;
+  image?: string;
+}
+
+interface Cluster {
+  listings: Listing[];
+  sources: Set<string>;
+}
+
+class ProductClusterService {
+  /**
+   * Cluster listings into canonical products, each with one offer per source sorted cheapest first
+   * Exact repeats of a listing (same URL) are dropped; same-named listings that differ in
+   * team, driver, type, season or price stay separate
+   */
+  cluster(products: Product[]): Product[] {
+    const seenUrls = new Set<string>();
+    const clusters: Cluster[] = [];
+
+    products.forEach((product) => {
+      if (seenUrls.has(product.url)) return;
+      seenUrls.add(product.url);
+
+      const listing = this.toListing(product);
+      let best: { cluster: Cluster; score: number } | null = null;
+
+      for (const cluster of clusters) {
+        if (cluster.sources.has(product.source)) continue;
+        const score = Math.min(...cluster.listings.map((member) => this.matchScore(member, listing)));
+        if (score >= config.clustering.similarityThreshold && (!best || score > best.score)) {
+          best = { cluster, score };
+        }
+      }
+
+      if (best) {
+        best.cluster.listings.push(listing);
+        best.cluster.sources.add(product.source);
+      } else {
+        clusters.push({ listings: [listing], sources: new Set([product.source]) });
+      }
+    });
+
+    const merged = clusters.filter((c) => c.listings.length > 1);
+    logger.info('Listings clustered', {
+      listings: products.length,
+      products: clusters.length,
+      multiSource: merged.length,
+    });
+    if (merged.length > 0) {
+      logger.debug('Clustered listings', { clusters: merged.map((c) => c.listings.map((l) => `${l.product.source}: ${l.product.name}`)) });
+    }
+
+    return clusters.map((cluster) => this.toCanonicalProduct(cluster));
+  }
+
+  /**
+   * How likely two listings from different stores are the same product (0 when they can't be)
+   * Name similarity ignores word order; a shared image or close price adds confidence
+   */
+  private matchScore(a: Listing, b: Listing): number {
+    if (this.conflicts(a.teams, b.teams) || this.conflicts(a.drivers, b.drivers) ||
+        this.conflicts(a.productTypes, b.productTypes) || this.conflicts(a.seasons, b.seasons)) {
+      return 0;
+    }
+
+    const priceRatio = this.priceRatio(a.product, b.product);
+    if (priceRatio !== null && priceRatio > config.clustering.maxPriceRatio) {
+      return 0;
+    }
+
+    let score = Math.max(calculateSimilarity(a.title, b.title), calculateSimilarity(a.sortedTitle, b.sortedTitle));
+
+    if (a.image && a.image === b.image) {
+      score += 0.15;
+    }
+    if (priceRatio !== null && priceRatio <= 1.15) {
+      score += 0.05;
+    }
+
+    return score;
+  }
+
+  /**
+   * Both listings name something (a team, driver, ...) but never the same one
+   */
+  private conflicts<T>(a: Set<T>, b: Set<T>): boolean {
+    if (a.size === 0 || b.size === 0) return false;
+    return !Array.from(a).some((value) => b.has(value));
+  }
+
+  /**
+   * Higher price over lower, or null when prices can't be compared
+   */
+  private priceRatio(a: Product, b: Product): number | null {
+    if (a.price.amount <= 0 || b.price.amount <= 0 || a.price.currency !== b.price.currency) return null;
+    return Math.max(a.price.amount, b.price.amount) / Math.min(a.price.amount, b.price.amount);
+  }
+
+  private toListing(product: Product): Listing {
+    const words = tokenize(product.name).filter((word) => !TITLE_NOISE.has(word));
+    const { teams, drivers } = knowledgeBaseService.resolve(product.name);
+
+    return {
+      product,
+      title: words.join(' '),
+      sortedTitle: [...words].sort().join(' '),
+      teams: new Set(teams.map((team) => team.id)),
+      drivers: new Set(drivers.map((driver) => driver.id)),
+      productTypes: new Set(detectProductTypes(product.name)),
+      seasons: new Set(words.filter((word) => /^(19|20)\d{2}$/.test(word))),
+      image: product.imageUrl ? product.imageUrl.split('?')[0].toLowerCase() : undefined,
+    };
+  }
+
+  /**
+   * Canonical product: details from the first listing (scrape order follows store priority),
+   * price, link and availability from the best offer
+   */
+  private toCanonicalProduct(cluster: Cluster): Product {
+    const [first] = cluster.listings.map((l) => l.product);
+    const [best, ...rest] = cluster.listings
+      .map((l) => l.product)
+      .sort((a, b) => this.compareOffers(a, b));
+    const offers: ProductOffer[] = [best, ...rest].map((product) => ({
+      productId: product.id,
+      name: product.name,
+      source: product.source,
+      url: product.url,
+      price: product.price,
+      compareAtPrice: product.compareAtPrice,
+      availability: product.availability,
+    }));
+
+    // Sale price and variants belong to the store behind the best offer, not the first listing
+    return {
+      ...first,
+      description: first.description || cluster.listings.find((l) => l.product.description)?.product.description,
+      imageUrl: first.imageUrl || cluster.listings.find((l) => l.product.imageUrl)?.product.imageUrl,
+      brand: first.brand || cluster.listings.find((l) => l.product.brand)?.product.brand,
+      url: best.url,
+      price: best.price,
+      compareAtPrice: best.compareAtPrice,
+      variants: best.variants,
+      availability: best.availability,
+      source: best.source,
+      offers,
+    };
+  }
+
+  /**
+   * In-stock offers first, then by price; offers without a price go last
+   */
+  private compareOffers(a: Product, b: Product): number {
+    const stocked = (offer: Product) => (offer.availability === 'OUT_OF_STOCK' ? 1 : 0);
+    const priced = (offer: Product) => (offer.price.amount > 0 ? 0 : 1);
+
+    return stocked(a) - stocked(b) ||
+      priced(a) - priced(b) ||
+      (a.price.currency === b.price.currency ? a.price.amount - b.price.amount : 0);
+  }
+}
+
+export const productClusterService = new ProductClusterService();
@@ -0,0 +1,86 @@
+/**
+ * Query Expansion Service
+ * Expands the requested item into its synonyms and rewrites one intent into a search query per store,
+ * using each store's query template and vocabulary
+ */
+
+import { knowledgeBaseService } from './knowledge-base.service';
+import { logger } from '../utils/logger';
+import { normalizeText } from '../utils/helpers';
+import { getProductTypeKeywords } from '../config/product-taxonomy';
+import type { SearchIntent, ScraperTarget } from '../types';
+
+const DEFAULT_QUERY_TEMPLATE = '{season} {team} {driver} {colour} {item}';
+
+type QueryPlaceholder = 'season' | 'team' | 'driver' | 'colour' | 'item';
+
+class QueryExpansionService {
+  /**
+   * The item as the user named it plus the other words for its product type
+   * ("hoodie" -> hoodie, hoody, sweatshirt, sweater)
+   */
+  getSynonyms(intent: SearchIntent): string[] {
+    const keywords = intent.productType ? getProductTypeKeywords(intent.productType) : [];
+    const terms = [intent.item, ...keywords].filter((term): term is string => Boolean(term));
+
+    return Array.from(new Set(terms.map((term) => normalizeText(term))));
+  }
+
+  /**
+   * Fill each target's query template from the intent
+   * Targets are left out (and searched with the fallback query) when the intent names no item, team or driver
+   */
+  buildQueries(intent: SearchIntent, targets: ScraperTarget[]): Record<string, string> {
+    if (!intent.item && !intent.productType && !intent.team && !intent.driver) return {};
+
+    const queries: Record<string, string> = {};
+    targets.forEach((target) => {
+      const values: Record<QueryPlaceholder, string | undefined> = {
+        season: intent.season ? String(intent.season) : undefined,
+        team: intent.team ? knowledgeBaseService.resolveTeam(intent.team)?.name || intent.team : undefined,
+        driver: intent.driver ? knowledgeBaseService.resolveDriver(intent.driver)?.fullName || intent.driver : undefined,
+        colour: intent.colour,
+        item: this.getItemTerm(intent, target),
+      };
+
+      const query = this.fillTemplate(target.queryTemplate || DEFAULT_QUERY_TEMPLATE, values);
+      if (query) queries[target.id] = query;
+    });
+
+    logger.info('Built store queries', { queries });
+    return queries;
+  }
+
+  /**
+   * The store's word for the product type, else the user's item, else the type's main keyword
+   */
+  private getItemTerm(intent: SearchIntent, target: ScraperTarget): string | undefined {
+    const { productType } = intent;
+    const storeTerm = productType ? target.vocabulary?.[productType] : undefined;
+    if (storeTerm) return storeTerm;
+    if (intent.item) return intent.item;
+    if (productType && productType !== 'other') return getProductTypeKeywords(productType)[0];
+    return intent.category;
+  }
+
+  /**
+   * Replace placeholders, dropping empty ones and words an earlier value already used
+   * ("{team} {item}" with team "Red Bull" and item "red bull cap" -> "Red Bull cap")
+   */
+  private fillTemplate(template: string, values: Record<QueryPlaceholder, string | undefined>): string {
+    const filled = template.replace(/\{(\w+)\}/g, (_, name: string) => values[name as QueryPlaceholder] || '');
+    const seen = new Set<string>();
+
+    return filled
+      .split(/\s+/)
+      .filter((word) => {
+        const key = normalizeText(word);
+        if (!key || seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      })
+      .join(' ');
+  }
+}
+
+export const queryExpansionService = new QueryExpansionService();
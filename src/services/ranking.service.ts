@@ -0,0 +1,187 @@
+/**
+ * Ranking Service
+ * Scores scraped products against the search query and intent with interchangeable rankers
+ */
+
+import { constraintService } from './constraint.service';
+import { queryExpansionService } from './query-expansion.service';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+import { tokenize } from '../utils/helpers';
+import type { Product, SearchIntent, Ranker, RankerName, RankingBoosts, RankingFieldWeights, IntentConstraint } from '../types';
+
+type RankedField = keyof RankingFieldWeights;
+
+type FieldTokens = Record<RankedField, string[]>;
+
+const RANKED_FIELDS: RankedField[] = ['name', 'description', 'brand'];
+
+/**
+ * Field-weighted BM25 over the scraped result set, plus boosts for intent constraints
+ * Term statistics come from the products being ranked, so a word every store repeats ("F1") counts for little
+ */
+class Bm25Ranker implements Ranker {
+  readonly name = 'bm25';
+
+  constructor(
+    private readonly params: { k1: number; b: number },
+    private readonly fieldWeights: RankingFieldWeights,
+    private readonly boosts: RankingBoosts
+  ) {}
+
+  score(products: Product[], query: string, intent: SearchIntent): number[] {
+    // A "hoodie" search also scores listings that call it a sweatshirt
+    const synonyms = queryExpansionService.getSynonyms(intent).flatMap((term) => tokenize(term));
+    const queryTerms = Array.from(new Set([...tokenize(query), ...synonyms]));
+    const documents: FieldTokens[] = products.map((product) => ({
+      name: tokenize(product.name),
+      description: tokenize(product.description || ''),
+      brand: tokenize(product.brand || ''),
+    }));
+
+    const averageLength = {} as Record<RankedField, number>;
+    RANKED_FIELDS.forEach((field) => {
+      const total = documents.reduce((sum, doc) => sum + doc[field].length, 0);
+      averageLength[field] = total / Math.max(documents.length, 1) || 1;
+    });
+
+    const documentFrequency = new Map<string, number>();
+    documents.forEach((doc) => {
+      new Set(RANKED_FIELDS.flatMap((field) => doc[field])).forEach((term) => {
+        documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1);
+      });
+    });
+
+    return products.map((product, index) => {
+      const doc = documents[index];
+      const textScore = queryTerms.reduce((sum, term) => {
+        const df = documentFrequency.get(term) || 0;
+        if (df === 0) return sum;
+        const idf = Math.log(1 + (documents.length - df + 0.5) / (df + 0.5));
+        const tf = this.weightedTermFrequency(term, doc, averageLength);
+        return sum + idf * (tf / (this.params.k1 + tf));
+      }, 0);
+
+      return textScore + this.intentBoost(product, intent);
+    });
+  }
+
+  /**
+   * Term frequency summed across fields, each normalized by its length and weighted (BM25F)
+   */
+  private weightedTermFrequency(term: string, doc: FieldTokens, averageLength: Record<RankedField, number>): number {
+    const { b } = this.params;
+
+    return RANKED_FIELDS.reduce((sum, field) => {
+      const count = doc[field].filter((token) => token === term).length;
+      if (count === 0) return sum;
+      const norm = 1 - b + b * (doc[field].length / averageLength[field]);
+      return sum + this.fieldWeights[field] * (count / norm);
+    }, 0);
+  }
+
+  /**
+   * Each constraint the product meets adds its boost and each one it contradicts subtracts
+   */
+  private intentBoost(product: Product, intent: SearchIntent): number {
+    const boosts = this.boosts;
+    let boost = 0;
+
+    constraintService.evaluate(product, intent).forEach((check) => {
+      if (check.constraint === 'budget') {
+        if (check.status !== 'unknown') boost += check.status === 'match' ? boosts.inBudget : boosts.outOfBudget;
+        return;
+      }
+      if (check.status === 'match') boost += boosts[check.constraint as Exclude<IntentConstraint, 'budget'>];
+      if (check.status === 'violated') boost += boosts.violated;
+    });
+
+    if (constraintService.mentionsExcluded(constraintService.getProductText(product), intent)) {
+      boost += boosts.excluded;
+    }
+
+    if (product.availability === 'IN_STOCK') boost += boosts.inStock;
+    if (product.availability === 'LIMITED_STOCK') boost += boosts.limitedStock;
+    if (product.availability === 'OUT_OF_STOCK') boost += boosts.outOfStock;
+
+    return boost;
+  }
+}
+
+/**
+ * The original scorer: substring hits of each query word, unchanged so it stays a fair baseline
+ * to compare the BM25 ranker against; intent boosts belong to the BM25 ranker only
+ */
+class LegacyRanker implements Ranker {
+  readonly name = 'legacy';
+
+  score(products: Product[], query: string): number[] {
+    const queryWords = query.toLowerCase().split(' ');
+    return products.map((product) => this.calculateRelevanceScore(product, queryWords));
+  }
+
+  /**
+   * Calculate relevance score for a product
+   */
+  private calculateRelevanceScore(product: Product, queryWords: string[]): number {
+    let score = 0;
+    const productText = `${product.name} ${product.description || ''} ${product.brand || ''}`.toLowerCase();
+    const productName = product.name.toLowerCase();
+
+    queryWords.forEach((word) => {
+      if (word.length < 2) return; // Skip very short words
+
+      // Exact match in name (highest weight)
+      if (productName.includes(word)) {
+        score += 3;
+      }
+
+      // Match in full product text
+      if (productText.includes(word)) {
+        score += 1;
+      }
+    });
+
+    // Bonus for in-stock items
+    if (product.availability === 'IN_STOCK') {
+      score += 0.5;
+    }
+
+    return score;
+  }
+}
+
+class RankingService {
+  private readonly rankers: Record<RankerName, Ranker> = {
+    bm25: new Bm25Ranker(config.ranking.bm25, config.ranking.fieldWeights, config.ranking.boosts),
+    legacy: new LegacyRanker(),
+  };
+
+  /**
+   * Get a ranker by name, defaulting to the configured one (SEARCH_RANKER)
+   */
+  getRanker(name: RankerName = config.ranking.ranker): Ranker {
+    return this.rankers[name];
+  }
+
+  /**
+   * Sort products by relevance, keeping scrape order for equal scores
+   */
+  rank(products: Product[], query: string, intent: SearchIntent = {}, rankerName?: RankerName): Product[] {
+    const ranker = this.getRanker(rankerName);
+    const scores = ranker.score(products, query, intent);
+
+    const ranked = products
+      .map((product, index) => ({ product, index, score: scores[index] }))
+      .sort((a, b) => b.score - a.score || a.index - b.index);
+
+    logger.debug('Products ranked', {
+      ranker: ranker.name,
+      top: ranked.slice(0, 5).map((r) => ({ name: r.product.name, score: Number(r.score.toFixed(3)) })),
+    });
+
+    return ranked.map((r) => r.product);
+  }
+}
+
+export const rankingService = new RankingService();
@@ -0,0 +1,84 @@
+/**
+ * Relaxation Service
+ * Loosens an intent one constraint at a time, for retrying searches that found nothing
+ */
+
+import { knowledgeBaseService } from './knowledge-base.service';
+import { CURRENCY_SYMBOLS } from './constraint.service';
+import { config } from '../config';
+import { tokenize } from '../utils/helpers';
+import { getCategoryForProductType, getProductTypeKeywords, getProductTypeLabel } from '../config/product-taxonomy';
+import type { SearchIntent, Relaxation, RelaxationStep } from '../types';
+
+class RelaxationService {
+  /**
+   * Progressively relaxed intents, each keeping the relaxations before it: without the driver,
+   * with a wider budget, with a synonym for the item, then with the item broadened to its category
+   * Synonyms come before the category because they still ask for the same kind of product.
+   * Steps that don't apply (no driver, no budget, no synonym) are skipped.
+   */
+  getRelaxations(intent: SearchIntent): Relaxation[] {
+    const relaxations: Relaxation[] = [];
+    const steps: RelaxationStep[] = [];
+    const changes: string[] = [];
+    let current = intent;
+
+    const relax = (step: RelaxationStep, relaxed: SearchIntent, change: string) => {
+      current = relaxed;
+      steps.push(step);
+      changes.push(change);
+      relaxations.push({ steps: [...steps], intent: current, message: this.buildMessage(changes) });
+    };
+
+    if (intent.driver) {
+      const name = knowledgeBaseService.resolveDriver(intent.driver)?.fullName || intent.driver;
+      relax('driver', { ...current, driver: undefined }, `left out the driver (${name})`);
+    }
+
+    if (intent.minPrice || intent.maxPrice) {
+      const { budgetFactor } = config.relaxation;
+      const symbol = intent.currency ? CURRENCY_SYMBOLS[intent.currency] : '';
+      const maxPrice = intent.maxPrice ? Math.ceil(intent.maxPrice * budgetFactor) : undefined;
+      const minPrice = intent.minPrice ? Math.floor(intent.minPrice / budgetFactor) || undefined : undefined;
+
+      const change = maxPrice && minPrice ? `widened the budget to ${symbol}${minPrice}-${symbol}${maxPrice}`
+        : maxPrice ? `raised the budget to ${symbol}${maxPrice}`
+          : minPrice ? `lowered the minimum price to ${symbol}${minPrice}`
+            : 'dropped the minimum price';
+      relax('budget', { ...current, minPrice, maxPrice }, change);
+    }
+
+    const { productType } = intent;
+    const typed = productType && productType !== 'other' ? productType : undefined;
+    const itemTerm = intent.item || (typed && getProductTypeKeywords(typed)[0]);
+    const synonym = typed && itemTerm ? this.findSynonym(itemTerm, getProductTypeKeywords(typed)) : undefined;
+    if (synonym) {
+      relax('synonyms', { ...current, item: synonym }, `searched for "${synonym}" instead of "${itemTerm}"`);
+    }
+
+    const category = intent.category || (typed && getCategoryForProductType(typed));
+    if (category && (typed || intent.item)) {
+      const narrow = typed ? getProductTypeLabel(typed) : `"${intent.item}"`;
+      relax('category', { ...current, item: undefined, productType: undefined, category }, `looked at all ${category} instead of just ${narrow}`);
+    }
+
+    return relaxations;
+  }
+
+  /**
+   * First keyword that isn't just another spelling of the term ("hoodie" -> "sweatshirt", not "hoody")
+   */
+  private findSynonym(term: string, keywords: string[]): string | undefined {
+    const termTokens = tokenize(term).join(' ');
+    return keywords.find((keyword) => tokenize(keyword).join(' ') !== termTokens);
+  }
+
+  private buildMessage(changes: string[]): string {
+    const list = changes.length > 1
+      ? `${changes.slice(0, -1).join(', ')} and ${changes[changes.length - 1]}`
+      : changes[0];
+    return `Nothing matched your exact search, so I ${list}.`;
+  }
+}
+
+export const relaxationService = new RelaxationService();
@@ -0,0 +1,177 @@
+/**
+ * Result Set Service
+ * Keeps ranked search results in memory and serves sorted pages of them through opaque cursors
+ */
+
+import { facetService } from './facet.service';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+import { generateId } from '../utils/helpers';
+import { SCRAPER_TARGETS } from '../config/scraper-targets';
+import type { Product, SearchResultSet, ResultPage, ResultPageRequest, SortOption } from '../types';
+
+export const SORT_OPTIONS: SortOption[] = ['relevance', 'price_asc', 'price_desc', 'newest', 'source_priority'];
+
+interface PageCursor extends ResultPageRequest {
+  resultSetId: string;
+}
+
+class ResultSetService {
+  private resultSets: Map<string, SearchResultSet>;
+  private ttl: number;
+  private maxResultSets: number;
+
+  constructor() {
+    this.resultSets = new Map();
+    this.ttl = config.pagination.ttl * 1000; // Convert to milliseconds
+    this.maxResultSets = config.pagination.maxResultSets;
+  }
+
+  /**
+   * Store the ranked products of a search
+   */
+  save(data: Omit<SearchResultSet, 'id' | 'createdAt' | 'expiresAt'>): SearchResultSet {
+    if (this.resultSets.size >= this.maxResultSets) {
+      this.cleanup();
+      this.evictOldest();
+    }
+
+    const now = new Date();
+    const resultSet: SearchResultSet = {
+      ...data,
+      id: generateId('results'),
+      createdAt: now,
+      expiresAt: new Date(now.getTime() + this.ttl),
+    };
+
+    this.resultSets.set(resultSet.id, resultSet);
+    logger.debug('Result set stored', { resultSetId: resultSet.id, products: resultSet.products.length });
+    return resultSet;
+  }
+
+  /**
+   * Get a stored result set by ID
+   */
+  get(resultSetId: string): SearchResultSet | null {
+    const resultSet = this.resultSets.get(resultSetId);
+
+    if (!resultSet) {
+      return null;
+    }
+
+    if (Date.now() > resultSet.expiresAt.getTime()) {
+      logger.debug('Result set expired', { resultSetId });
+      this.resultSets.delete(resultSetId);
+      return null;
+    }
+
+    return resultSet;
+  }
+
+  /**
+   * Narrow a result set to the selected facets, sort it and cut one page
+   * Facets are counted over the whole narrowed set, not just the page
+   */
+  page(resultSet: SearchResultSet, request: ResultPageRequest): ResultPage {
+    const { products, facets } = facetService.apply(resultSet.products, request.facets);
+    const sorted = this.sort(products, request.sort);
+    const end = request.offset + request.pageSize;
+
+    return {
+      products: sorted.slice(request.offset, end),
+      facets,
+      exactMatches: sorted.filter((product) => product.match?.exact !== false).length,
+      totalFound: sorted.length,
+      nextCursor: end < sorted.length
+        ? this.encodeCursor({ ...request, resultSetId: resultSet.id, offset: end })
+        : null,
+    };
+  }
+
+  /**
+   * Decode a cursor into its result set and page request, or null when it is malformed or expired
+   */
+  resolveCursor(cursor: string): { resultSet: SearchResultSet; request: ResultPageRequest } | null {
+    let decoded: PageCursor;
+    try {
+      decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    } catch {
+      return null;
+    }
+
+    const { resultSetId, offset, pageSize, sort, facets } = decoded || ({} as PageCursor);
+    if (typeof resultSetId !== 'string' || !Number.isInteger(offset) || offset < 0 ||
+        !Number.isInteger(pageSize) || pageSize <= 0 || !SORT_OPTIONS.includes(sort) ||
+        facetService.getSelectionError(facets) !== null) {
+      return null;
+    }
+
+    const resultSet = this.get(resultSetId);
+    return resultSet ? { resultSet, request: { offset, pageSize, sort, facets } } : null;
+  }
+
+  /**
+   * Remove expired result sets
+   */
+  cleanup(): void {
+    const now = Date.now();
+    let cleaned = 0;
+
+    for (const [id, resultSet] of this.resultSets.entries()) {
+      if (now > resultSet.expiresAt.getTime()) {
+        this.resultSets.delete(id);
+        cleaned++;
+      }
+    }
+
+    if (cleaned > 0) {
+      logger.info(`Result set cleanup: removed ${cleaned} expired result sets`);
+    }
+  }
+
+  /**
+   * Sort products; relevance keeps the ranked order, and ties keep it too
+   * Exact matches stay ahead of close alternatives whatever the sort. Products without a price
+   * sort last by price, and amounts are compared without currency conversion.
+   */
+  private sort(products: Product[], sort: SortOption): Product[] {
+    if (sort === 'relevance') return products;
+
+    const priorities = new Map(SCRAPER_TARGETS.map((target) => [target.name, target.priority]));
+    const price = (product: Product, missing: number) => (product.price.amount > 0 ? product.price.amount : missing);
+
+    const compare: Record<Exclude<SortOption, 'relevance'>, (a: Product, b: Product) => number> = {
+      price_asc: (a, b) => price(a, Infinity) - price(b, Infinity),
+      price_desc: (a, b) => price(b, -Infinity) - price(a, -Infinity),
+      newest: (a, b) => new Date(b.scrapedAt).getTime() - new Date(a.scrapedAt).getTime(),
+      source_priority: (a, b) => (priorities.get(b.source) ?? 0) - (priorities.get(a.source) ?? 0),
+    };
+
+    const alternative = (product: Product) => (product.match?.exact === false ? 1 : 0);
+
+    return [...products].sort((a, b) => alternative(a) - alternative(b) || compare[sort](a, b) || 0);
+  }
+
+  private encodeCursor(cursor: PageCursor): string {
+    return Buffer.from(JSON.stringify(cursor), 'utf8').toString('base64url');
+  }
+
+  /**
+   * Evict the oldest result set when the store is full
+   */
+  private evictOldest(): void {
+    if (this.resultSets.size < this.maxResultSets) return;
+
+    // Maps iterate in insertion order, so the first entry is the oldest
+    const oldest = this.resultSets.keys().next().value;
+    if (oldest !== undefined) {
+      this.resultSets.delete(oldest);
+      logger.warn('Result set store full, evicted oldest result set', { resultSetId: oldest });
+    }
+  }
+}
+
+export const resultSetService = new ResultSetService();
+
+// Run cleanup every 5 minutes
+setInterval(() => resultSetService.cleanup(), 5 * 60 * 1000);
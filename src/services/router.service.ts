@@ -0,0 +1,137 @@
+/**
+ * Message Router Service
+ * Decides whether a chat message needs a product search, a follow-up refinement,
+ * a conversational reply, or a polite out-of-scope answer
+ */
+
+import { openAIService } from './openai.service';
+import { logger } from '../utils/logger';
+import { escapeRegExp } from '../utils/helpers';
+import type { RouteDecision } from '../types';
+
+const PRODUCT_TERMS = [
+  'helmet', 'shirt', 't-shirt', 'tee', 'jacket', 'cap', 'caps', 'hat', 'beanie', 'hoodie',
+  'sweater', 'sweatshirt', 'polo', 'jersey', 'diecast', 'die-cast', 'model', 'models',
+  'collectible', 'collectibles', 'souvenir', 'merch', 'merchandise', 'gear', 'apparel',
+  'clothing', 'flag', 'poster', 'keyring', 'mug', 'bag', 'backpack', 'lego', 'teamwear',
+];
+
+const SHOPPING_PHRASES = [
+  'buy', 'purchase', 'shop', 'order', 'price', 'cost', 'cheap', 'affordable', 'budget',
+  'under $', 'under £', 'under €', 'for sale', 'show me', 'find me', 'looking for',
+  'where can i get', 'gift for', 'present for', 'in stock',
+];
+
+const FOLLOW_UP_PHRASES = [
+  'cheaper', 'more expensive', 'instead', 'what about', 'how about', 'any other',
+  'other colour', 'other color', 'show more', 'more like', 'similar', 'different size',
+  'bigger', 'smaller', 'in red', 'in black', 'in blue', 'in white', 'only ones', 'those',
+];
+
+const F1_TERMS = [
+  'f1', 'formula 1', 'formula one', 'grand prix', 'gp', 'race', 'racing', 'driver', 'team',
+  'championship', 'champion', 'pole', 'podium', 'lap', 'pit', 'qualifying', 'season',
+  'hamilton', 'verstappen', 'leclerc', 'norris', 'russell', 'alonso', 'piastri', 'sainz',
+  'perez', 'schumacher', 'senna', 'vettel', 'red bull', 'ferrari', 'mercedes', 'mclaren',
+  'alpine', 'aston martin', 'williams', 'haas', 'sauber', 'silverstone', 'monaco', 'monza',
+];
+
+const TRIVIA_PATTERNS = [
+  /^(who|when|where|why|how many|how much did|which)\b/,
+  /\b(won|win|wins|winner|record|history|born|retire[ds]?|fastest|standings|points|results?)\b/,
+];
+
+const GREETING_PATTERN = /^(hi|hello|hey|thanks|thank you|good (morning|afternoon|evening))\b/;
+
+class RouterService {
+  /**
+   * Route a chat message, preferring the model and falling back to rules
+   */
+  async route(message: string, hasPreviousSearch: boolean = false): Promise<RouteDecision> {
+    const llmDecision = await openAIService.classifyMessage(message, hasPreviousSearch);
+
+    // A follow-up without a previous search is just a new search
+    if (llmDecision) {
+      const decision = llmDecision.route === 'follow_up' && !hasPreviousSearch
+        ? { ...llmDecision, route: 'product_search' as const }
+        : llmDecision;
+      logger.info('Message routed by model', { ...decision });
+      return decision;
+    }
+
+    const decision = this.classifyWithRules(message, hasPreviousSearch);
+    logger.info('Message routed by rules', { ...decision });
+    return decision;
+  }
+
+  /**
+   * Rule-based classifier used when the router model is unavailable
+   */
+  classifyWithRules(message: string, hasPreviousSearch: boolean = false): RouteDecision {
+    const text = message.toLowerCase().trim();
+
+    const productHits = PRODUCT_TERMS.filter((term) => this.containsTerm(text, term));
+    const shoppingHits = SHOPPING_PHRASES.filter((phrase) => text.includes(phrase));
+    const followUpHits = FOLLOW_UP_PHRASES.filter((phrase) => text.includes(phrase));
+    const f1Hits = F1_TERMS.filter((term) => this.containsTerm(text, term));
+    const isTrivia = TRIVIA_PATTERNS.some((pattern) => pattern.test(text));
+
+    // Refinements of the previous search
+    if (hasPreviousSearch && followUpHits.length > 0 && productHits.length === 0) {
+      return {
+        route: 'follow_up',
+        confidence: Math.min(0.6 + followUpHits.length * 0.1, 0.9),
+        reason: `Refines the previous search (${followUpHits.join(', ')})`,
+        method: 'rules',
+      };
+    }
+
+    // Explicit products or shopping language
+    if (productHits.length > 0 || shoppingHits.length > 0) {
+      const signals = [...productHits, ...shoppingHits];
+      return {
+        route: 'product_search',
+        confidence: Math.min(0.55 + signals.length * 0.15, 0.95),
+        reason: `Mentions products or shopping (${signals.join(', ')})`,
+        method: 'rules',
+      };
+    }
+
+    // F1 questions without shopping intent
+    if (f1Hits.length > 0) {
+      return {
+        route: 'general_chat',
+        confidence: isTrivia ? 0.8 : 0.6,
+        reason: isTrivia
+          ? `F1 question without shopping intent (${f1Hits.join(', ')})`
+          : `Talks about F1 without shopping intent (${f1Hits.join(', ')})`,
+        method: 'rules',
+      };
+    }
+
+    if (GREETING_PATTERN.test(text)) {
+      return {
+        route: 'general_chat',
+        confidence: 0.9,
+        reason: 'Greeting or small talk',
+        method: 'rules',
+      };
+    }
+
+    return {
+      route: 'out_of_scope',
+      confidence: 0.5,
+      reason: 'No F1 or merchandise terms found',
+      method: 'rules',
+    };
+  }
+
+  /**
+   * Whole-word match so "cap" does not match "capital"
+   */
+  private containsTerm(text: string, term: string): boolean {
+    return new RegExp(`(^|[^a-z0-9])${escapeRegExp(term)}([^a-z0-9]|$)`).test(text);
+  }
+}
+
+export const routerService = new RouterService();
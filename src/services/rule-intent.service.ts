@@ -0,0 +1,349 @@
+/**
+ * Rule-Based Intent Service
+ * Deterministic, offline intent extraction used as a fallback for the LLM and to cross-check it
+ */
+
+import { PRODUCT_TYPES, getCategoryForProductType } from '../config/product-taxonomy';
+import { logger } from '../utils/logger';
+import { STOP_WORDS, escapeRegExp, normalizeText } from '../utils/helpers';
+import { knowledgeBaseService } from './knowledge-base.service';
+import type { Currency, F1EntityType, IntentDiscrepancy, ProductType, SearchIntent } from '../types';
+
+interface EntityMatch {
+  type: F1EntityType;
+  name: string;
+  start: number;
+  end: number;
+  negated: boolean;
+}
+
+interface CrossCheckResult {
+  intent: SearchIntent;
+  discrepancies: IntentDiscrepancy[];
+}
+
+export const COLOURS = [
+  'black', 'white', 'red', 'blue', 'navy', 'orange', 'green', 'yellow', 'grey', 'gray',
+  'pink', 'purple', 'silver', 'gold',
+];
+
+const CURRENCY_WORDS: Array<[RegExp, Currency]> = [
+  [/£|\bpounds?\b|\bquid\b|\bgbp\b/, 'GBP'],
+  [/€|\beuros?\b|\beur\b/, 'EUR'],
+  [/\$|\bdollars?\b|\bbucks\b|\busd\b/, 'USD'],
+];
+
+const NUMBER = '[£$€]?\\s?(\\d+(?:\\.\\d{1,2})?)\\s?(?:£|\\$|€|pounds?|quid|gbp|dollars?|bucks|usd|euros?|eur)?';
+
+const NEGATION = /\b(not|no|nothing|except|without|excluding|other than|anything but|but not|isn'?t|aren'?t)\s+(?:(?:a|an|the|any)\s+)?$/;
+
+// Separators that carry a negation on to the next mention ("no caps, beanies or hats")
+// A comma followed by an article starts a new clause ("not a t-shirt, a hoodie")
+const LIST_CONTINUATION = /^\s*(?:,\s*)?(?:or|nor)\s+(?:(?:a|an|the|any)\s+)?$|^\s*[,/]\s*$/;
+
+// Keywords too broad to override a more specific product type in the same query
+const GENERIC_KEYWORDS = ['shirt'];
+
+// Memorabilia keywords that describe the item after them, which they're kept with ("signed photo")
+const DESCRIPTOR_KEYWORDS = ['signed', 'autographed', 'race-used', 'race used'];
+
+// Fields the rules parse exactly, so they override the LLM when the two disagree
+const RULES_WIN_FIELDS: (keyof SearchIntent)[] = ['minPrice', 'maxPrice', 'currency', 'season'];
+
+// Fields the rules match reliably enough to fill in when the LLM left them out
+// Product types, colours and exclusions come from keyword and negation heuristics, so they're only reported
+const CONFIDENT_RULE_FIELDS: (keyof SearchIntent)[] = [
+  'team', 'driver', 'minPrice', 'maxPrice', 'currency', 'season', 'size', 'condition',
+];
+
+class RuleIntentService {
+  /**
+   * Extract a search intent from the raw query without any network calls
+   */
+  extract(query: string): SearchIntent {
+    const text = normalizeText(query);
+    const intent: SearchIntent = {};
+
+    // Entities first, so their text is not reused for colours ("red" in "red bull")
+    const entities = this.findEntities(text);
+    const teamMatches = entities.filter((m) => m.type === 'team');
+    const driverMatches = entities.filter((m) => m.type === 'driver');
+    const masked = this.mask(text, [...teamMatches, ...driverMatches]);
+
+    const team = teamMatches.find((m) => !m.negated);
+    const driver = driverMatches.find((m) => !m.negated);
+    if (team) intent.team = team.name;
+    if (driver) intent.driver = driver.name;
+
+    const excludedTeams = this.unique(teamMatches.filter((m) => m.negated).map((m) => m.name));
+    const excludedDrivers = this.unique(driverMatches.filter((m) => m.negated).map((m) => m.name));
+    if (excludedTeams.length > 0) intent.excludedTeams = excludedTeams;
+    if (excludedDrivers.length > 0) intent.excludedDrivers = excludedDrivers;
+
+    const { product, excluded: excludedProductTypes } = this.findProductTypes(masked);
+    if (product) {
+      intent.item = product.item;
+      intent.productType = product.productType;
+      intent.category = getCategoryForProductType(product.productType);
+    }
+    if (excludedProductTypes.length > 0) intent.excludedProductTypes = excludedProductTypes;
+
+    Object.assign(intent, this.parsePrice(masked));
+
+    const season = masked.match(/(?<![£$€\d])\b(19[5-9]\d|20\d\d)\b(?!\s?(?:£|\$|€|pounds?|dollars?|euros?))/);
+    if (season) intent.season = parseInt(season[1], 10);
+
+    // A decade or "retro" asks for old merchandise without naming a season
+    if (!intent.season && /\b(retro|vintage|throwback|old[- ]school|(?:19[5-9]|200)0s|[5-9]0s)\b/.test(masked)) {
+      intent.era = 'vintage';
+    }
+
+    const size = this.parseSize(masked);
+    if (size) intent.size = size;
+
+    // Colours after a negation ("no pink") are excluded rather than requested
+    const colourMatches = COLOURS
+      .map((c) => ({ colour: c === 'gray' ? 'grey' : c, match: masked.match(new RegExp(`\\b${c}\\b`)) }))
+      .filter(({ match }) => match)
+      .map(({ colour, match }) => ({ colour, negated: this.isNegated(masked, match!.index!, []) }));
+    const colour = colourMatches.find((c) => !c.negated);
+    if (colour) intent.colour = colour.colour;
+    const excludedColours = colourMatches.filter((c) => c.negated).map((c) => c.colour);
+    if (excludedColours.length > 0) intent.excludedTerms = this.unique(excludedColours);
+
+    // "race-used" describes memorabilia, not the item's condition
+    if (/\b(?<!race[- ])(used|pre-?owned|second[- ]hand|preloved|pre-loved)\b/.test(masked)) {
+      intent.condition = 'used';
+    } else if (/\b(brand new|new with tags|bnwt|unworn)\b/.test(masked)) {
+      intent.condition = 'new';
+    }
+
+    logger.debug('Rule-based intent extracted', { query, intent });
+    return intent;
+  }
+
+  /**
+   * Reconcile an LLM intent with the rule-based one
+   * Rules win on numbers they parse exactly; the LLM wins elsewhere. Gaps the LLM left are filled
+   * only from fields the rules match reliably. Every field where the two differ is recorded.
+   */
+  crossCheck(llmIntent: SearchIntent, ruleIntent: SearchIntent): CrossCheckResult {
+    const intent: SearchIntent = { ...llmIntent };
+    const discrepancies: IntentDiscrepancy[] = [];
+
+    (Object.keys(ruleIntent) as (keyof SearchIntent)[]).forEach((field) => {
+      const ruleValue = ruleIntent[field];
+      const llmValue = llmIntent[field];
+      if (ruleValue === undefined || this.sameValue(llmValue, ruleValue)) return;
+
+      const rulesWin = llmValue === undefined ? CONFIDENT_RULE_FIELDS.includes(field) : RULES_WIN_FIELDS.includes(field);
+      if (rulesWin) {
+        (intent as Record<string, unknown>)[field] = ruleValue;
+      }
+      discrepancies.push({ field, llm: llmValue, rules: ruleValue, resolution: rulesWin ? 'rules' : 'llm' });
+    });
+
+    if (discrepancies.length > 0) {
+      logger.warn('LLM and rule-based intents disagree', { discrepancies });
+    }
+
+    return { intent, discrepancies };
+  }
+
+  /**
+   * Find team and driver mentions via the knowledge base, marking negated ones
+   */
+  private findEntities(text: string): EntityMatch[] {
+    const matches: EntityMatch[] = [];
+
+    knowledgeBaseService.findMentions(text).forEach((mention) => {
+      matches.push({
+        type: mention.type,
+        name: mention.name,
+        start: mention.start,
+        end: mention.end,
+        negated: this.isNegated(text, mention.start, matches.filter((m) => m.negated)),
+      });
+    });
+
+    return matches;
+  }
+
+  /**
+   * Blank out matched spans so later parsers ignore them
+   * Not with spaces, or "anything but Ferrari caps" would read as "anything but caps"
+   */
+  private mask(text: string, matches: EntityMatch[]): string {
+    let masked = text;
+    matches.forEach((m) => {
+      masked = masked.slice(0, m.start) + '#'.repeat(m.end - m.start) + masked.slice(m.end);
+    });
+    return masked;
+  }
+
+  /**
+   * Find the product type keyword in the query, and the product types it rules out
+   * The head noun usually comes last ("signed cap" is a cap), so the latest match wins,
+   * unless it's a generic keyword following a specific one ("polo shirt" is a polo)
+   */
+  private findProductTypes(text: string): {
+    product: { item: string; productType: ProductType } | null;
+    excluded: ProductType[];
+  } {
+    const matches: Array<{ item: string; productType: ProductType; start: number; end: number }> = [];
+
+    for (const productType of Object.keys(PRODUCT_TYPES) as ProductType[]) {
+      for (const keyword of PRODUCT_TYPES[productType].keywords) {
+        const pattern = new RegExp(`(^|[^a-z0-9])(${escapeRegExp(keyword)}(?:e?s)?)(?=[^a-z0-9]|$)`, 'g');
+        let match: RegExpExecArray | null;
+
+        while ((match = pattern.exec(text)) !== null) {
+          const start = match.index + match[1].length;
+          matches.push({ item: keyword, productType, start, end: start + match[2].length });
+        }
+      }
+    }
+
+    // Keep the longest keyword at each position ("t-shirt" over "shirt")
+    const spans = matches
+      .sort((a, b) => a.start - b.start || b.end - a.end)
+      .filter((m, i, all) => !all.slice(0, i).some((other) => m.start < other.end && m.end > other.start));
+
+    const negated: Array<{ end: number }> = [];
+    let best: (typeof spans)[number] | null = null;
+    const excluded: ProductType[] = [];
+    const isGeneric = (span: { item: string }) => GENERIC_KEYWORDS.includes(span.item);
+
+    for (const span of spans) {
+      if (this.isNegated(text, span.start, negated)) {
+        negated.push(span);
+        excluded.push(span.productType);
+      } else if (!best || (span.end > best.end && (!isGeneric(span) || isGeneric(best)))) {
+        best = span;
+      }
+    }
+
+    // Skip masked teams and drivers to reach the described item ("race-used Hamilton glove")
+    const described = best && DESCRIPTOR_KEYWORDS.includes(best.item)
+      ? text.slice(best.end).match(/^[\s#]*([a-z]+)/)?.[1]
+      : undefined;
+    const isItem = (word: string | undefined): word is string => !!word && !STOP_WORDS.has(word);
+
+    return {
+      product: best ? { item: isItem(described) ? `${best.item} ${described}` : best.item, productType: best.productType } : null,
+      excluded: this.unique(excluded),
+    };
+  }
+
+  /**
+   * A mention is negated when a negation word precedes it, or when it continues a list
+   * that started with a negated mention ("not Ferrari or Mercedes")
+   */
+  private isNegated(text: string, start: number, negatedSpans: Array<{ end: number }>): boolean {
+    if (NEGATION.test(text.slice(Math.max(0, start - 25), start))) return true;
+    return negatedSpans.some((span) => span.end <= start && LIST_CONTINUATION.test(text.slice(span.end, start)));
+  }
+
+  /**
+   * Parse budget expressions such as "under £50" or "between 20 and 40 dollars"
+   */
+  private parsePrice(text: string): Pick<SearchIntent, 'minPrice' | 'maxPrice' | 'currency'> {
+    const result: Pick<SearchIntent, 'minPrice' | 'maxPrice' | 'currency'> = {};
+    const amount = (value: string) => parseFloat(value);
+
+    const range = text.match(new RegExp(`\\b(?:between|from)\\s+${NUMBER}\\s+(?:and|to|-)\\s+${NUMBER}`)) ||
+      text.match(new RegExp(`${NUMBER}\\s?(?:-|to)\\s?${NUMBER}`));
+    const max = text.match(new RegExp(`\\b(?:under|below|less than|up to|max(?:imum)?|not? (?:more than|over|above)|at most|cheaper than|within)\\s+${NUMBER}`)) ||
+      text.match(new RegExp(`${NUMBER}\\s+(?:or less|or under|max(?:imum)?|tops)\\b`)) ||
+      text.match(new RegExp(`\\bbudget\\s+(?:of\\s+|is\\s+)?${NUMBER}`));
+    // "no more than" and "not over" are ceilings, not floors
+    const min = text.match(new RegExp(`(?<!\\bnot? )\\b(?:over|above|more than|at least|min(?:imum)?|from)\\s+${NUMBER}`));
+    const around = text.match(new RegExp(`\\b(?:around|about|roughly|approx(?:imately)?)\\s+${NUMBER}`));
+
+    let priceText = '';
+
+    if (range && this.looksLikePrice(range[0])) {
+      const [low, high] = [amount(range[1]), amount(range[2])].sort((a, b) => a - b);
+      result.minPrice = low;
+      result.maxPrice = high;
+      priceText = range[0];
+    } else {
+      if (max && this.looksLikePrice(max[0], true)) {
+        result.maxPrice = amount(max[1]);
+        priceText += max[0];
+      }
+      if (min && this.looksLikePrice(min[0], true)) {
+        result.minPrice = amount(min[1]);
+        priceText += min[0];
+      }
+      if (!max && !min && around && this.looksLikePrice(around[0], true)) {
+        const value = amount(around[1]);
+        result.minPrice = Math.round(value * 0.8);
+        result.maxPrice = Math.round(value * 1.2);
+        priceText = around[0];
+      }
+    }
+
+    // Currency from the price expression, else anywhere in the query
+    const currency = CURRENCY_WORDS.find(([pattern]) => pattern.test(priceText)) ||
+      CURRENCY_WORDS.find(([pattern]) => pattern.test(text));
+    if (currency && (result.minPrice !== undefined || result.maxPrice !== undefined)) {
+      result.currency = currency[1];
+    }
+
+    return result;
+  }
+
+  /**
+   * Reject years and scales that happen to sit next to price words
+   * Keyword-led expressions ("under 50") count; bare ranges need a currency
+   */
+  private looksLikePrice(expression: string, keywordLed: boolean = false): boolean {
+    const hasCurrency = CURRENCY_WORDS.some(([pattern]) => pattern.test(expression));
+    const numbers = expression.match(/\d+(?:\.\d+)?/g) || [];
+    const looksLikeYear = numbers.some((n) => /^(19[5-9]\d|20\d\d)$/.test(n));
+
+    if (hasCurrency) return true;
+    if (looksLikeYear) return false;
+    return keywordLed || /\b(between|from)\b/.test(expression);
+  }
+
+  /**
+   * Parse clothing sizes; single letters need an explicit "size"
+   */
+  private parseSize(text: string): string | undefined {
+    const explicit = text.match(/\bsize\s+(xxs|xs|s|m|l|xl|xxl|xxxl|[2-5]xl|\d{1,2})\b/);
+    if (explicit) return explicit[1].toUpperCase();
+
+    const lettered = text.match(/\b(xxs|xs|xl|xxl|xxxl|[2-5]xl)\b/);
+    if (lettered) return lettered[1].toUpperCase();
+
+    const worded = text.match(/\b(extra small|small|medium|large|extra large)\b/);
+    if (worded) {
+      const sizes: Record<string, string> = {
+        'extra small': 'XS', small: 'S', medium: 'M', large: 'L', 'extra large': 'XL',
+      };
+      return sizes[worded[1]];
+    }
+
+    if (/\b(kids?|youth|junior|child(?:ren)?'?s?)\b/.test(text)) return 'Kids';
+
+    return undefined;
+  }
+
+  /**
+   * Case-insensitive comparison; arrays compare as sets
+   */
+  private sameValue(a: unknown, b: unknown): boolean {
+    const key = (value: unknown) => (Array.isArray(value)
+      ? value.map((v) => String(v).toLowerCase()).sort().join('|')
+      : String(value).toLowerCase());
+    return key(a) === key(b);
+  }
+
+  private unique<T>(values: T[]): T[] {
+    return Array.from(new Set(values));
+  }
+}
+
+export const ruleIntentService = new RuleIntentService();
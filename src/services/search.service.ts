@@ -4,120 +4,226 @@
  */
 
 import { openAIService } from './openai.service';
+import { ruleIntentService } from './rule-intent.service';
+import { spellingService } from './spelling.service';
+import { eraService } from './era.service';
+import { queryExpansionService } from './query-expansion.service';
+import { rankingService } from './ranking.service';
+import { semanticRerankService } from './semantic-rerank.service';
+import { constraintService } from './constraint.service';
+import { relaxationService } from './relaxation.service';
+import { productClusterService } from './product-cluster.service';
+import { resultSetService } from './result-set.service';
 import { scraperService } from './scraper.service';
+import { browserPool } from '../scrapers/browser';
+import { config } from '../config';
 import { logger } from '../utils/logger';
 import { cache } from '../utils/cache';
-import { getEnabledTargets } from '../config/scraper-targets';
-import type { SearchResult, SearchIntent, Product } from '../types';
+import { selectTargets } from '../config/scraper-targets';
+import type {
+  SearchResult,
+  SearchIntent,
+  Product,
+  SearchOptions,
+  IntentContext,
+  ResolvedIntent,
+  IntentEra,
+  Relaxation,
+  RankerName,
+  ScraperTarget,
+  ScraperResult,
+  SearchEventHandler,
+  BrowserSession,
+} from '../types';
+
+interface ScrapeAttempt {
+  queryVariants: Record<string, string>;
+  expandedTerms: string[];
+  products: Product[];
+  sources: string[];
+}
 
 class SearchService {
   /**
-   * Filter products based on search intent
+   * Remove products matching anything the user excluded
    */
-  private filterProductsByIntent(products: Product[], intent: SearchIntent): Product[] {
-    return products.filter((product) => {
-      const productText = `${product.name} ${product.description || ''} ${product.brand || ''}`.toLowerCase();
-
-      // Filter by team
-      if (intent.team && !productText.includes(intent.team.toLowerCase())) {
-        return false;
-      }
-
-      // Filter by driver
-      if (intent.driver && !productText.includes(intent.driver.toLowerCase())) {
-        return false;
-      }
-
-      // Filter by item type (more flexible matching)
-      if (intent.item) {
-        const itemWords = intent.item.toLowerCase().split(/\s+/);
-        const hasMatch = itemWords.some(word => 
-          productText.includes(word) || 
-          (word === 'racewear' && (productText.includes('race') || productText.includes('suit') || productText.includes('teamwear'))) ||
-          (word === 'clothing' && (productText.includes('shirt') || productText.includes('jacket') || productText.includes('polo')))
-        );
-        if (!hasMatch) {
-          return false;
-        }
-      }
+  private removeExcluded(products: Product[], intent: SearchIntent): Product[] {
+    if (!this.hasExclusions(intent)) return products;
 
-      // Filter by budget
-      if (intent.budget && product.price.amount > intent.budget) {
-        return false;
-      }
+    return products.filter((product) =>
+      !constraintService.mentionsExcluded(constraintService.getProductText(product), intent)
+    );
+  }
 
-      return true;
-    });
+  /**
+   * Store queries for an intent: each store's own vocabulary, or the era's queries for vintage merchandise
+   */
+  private buildQueryVariants(intent: SearchIntent, era: IntentEra, targets: ScraperTarget[]): Record<string, string> {
+    return {
+      ...queryExpansionService.buildQueries(intent, targets),
+      ...eraService.buildQueryVariants(intent, era, targets),
+    };
   }
 
   /**
-   * Remove duplicate products
+   * Scrape every target with its query for the intent, reusing results already scraped with the same query
    */
-  private removeDuplicates(products: Product[]): Product[] {
-    const seen = new Set<string>();
-    return products.filter((product) => {
-      // Create a key from normalized product name
-      const key = product.name.toLowerCase().replace(/[^a-z0-9]/g, '');
-      
-      if (seen.has(key)) {
-        return false;
+  private async scrape(
+    intent: SearchIntent,
+    era: IntentEra,
+    searchQuery: string,
+    targets: ScraperTarget[],
+    scrapes: Map<string, ScraperResult>,
+    session: BrowserSession,
+    onEvent?: SearchEventHandler
+  ): Promise<ScrapeAttempt> {
+    const queryVariants = this.buildQueryVariants(intent, era, targets);
+    const expandedTerms = queryExpansionService.getSynonyms(intent);
+    const scrapeKey = (target: ScraperTarget) => this.scrapeKey(target, queryVariants, searchQuery);
+    const pending = targets.filter((target) => !scrapes.has(scrapeKey(target)));
+
+    if (pending.length > 0) {
+      logger.info('Starting parallel scraping with query links', {
+        searchQuery,
+        expandedTerms,
+        targets: pending.map(t => ({
+          id: t.id,
+          name: t.name,
+          searchUrl: `${t.baseUrl}${t.searchPath}${encodeURIComponent(queryVariants[t.id] || searchQuery)}`,
+          enabled: t.enabled
+        }))
+      });
+
+      const results = await scraperService.scrapeMultipleTargets(
+        pending,
+        searchQuery,
+        onEvent ? (result) => onEvent({ type: 'scraper_result', result }) : undefined,
+        queryVariants,
+        session
+      );
+      results.forEach((result, index) => scrapes.set(scrapeKey(pending[index]), result));
+    }
+
+    // Collect all products
+    const products: Product[] = [];
+    const sources: string[] = [];
+
+    targets.forEach((target) => {
+      const result = scrapes.get(scrapeKey(target));
+      if (result && result.success && result.products.length > 0) {
+        products.push(...result.products);
+        sources.push(result.source);
       }
-      
-      seen.add(key);
-      return true;
     });
+
+    logger.info(`Collected ${products.length} products from ${sources.length} sources`);
+    return { queryVariants, expandedTerms, products, sources };
   }
 
   /**
-   * Sort products by relevance
+   * Whether every target's query for the intent has already been scraped
    */
-  private sortByRelevance(products: Product[], query: string): Product[] {
-    const queryWords = query.toLowerCase().split(' ');
+  private isScraped(
+    intent: SearchIntent,
+    era: IntentEra,
+    searchQuery: string,
+    targets: ScraperTarget[],
+    scrapes: Map<string, ScraperResult>
+  ): boolean {
+    const queryVariants = this.buildQueryVariants(intent, era, targets);
+    return targets.every((target) => scrapes.has(this.scrapeKey(target, queryVariants, searchQuery)));
+  }
 
-    return products.sort((a, b) => {
-      const aScore = this.calculateRelevanceScore(a, queryWords);
-      const bScore = this.calculateRelevanceScore(b, queryWords);
-      return bScore - aScore;
-    });
+  private scrapeKey(target: ScraperTarget, queryVariants: Record<string, string>, searchQuery: string): string {
+    return `${target.id}:${queryVariants[target.id] || searchQuery}`;
   }
 
   /**
-   * Calculate relevance score for a product
+   * Remove excluded products, group listings across stores, rank them and check the intent's constraints
    */
-  private calculateRelevanceScore(product: Product, queryWords: string[]): number {
-    let score = 0;
-    const productText = `${product.name} ${product.description || ''} ${product.brand || ''}`.toLowerCase();
-    const productName = product.name.toLowerCase();
+  private async rankProducts(products: Product[], intent: SearchIntent, searchQuery: string, ranker: RankerName): Promise<Product[]> {
+    // The scrapers search with the actual query, so only exclusions need filtering
+    const filteredProducts = this.removeExcluded(products, intent);
+    logger.info('Excluded products removed', {
+      originalCount: products.length,
+      filteredCount: filteredProducts.length,
+    });
 
-    queryWords.forEach((word) => {
-      if (word.length < 2) return; // Skip very short words
+    // Group listings of the same product across stores into offers
+    const uniqueProducts = productClusterService.cluster(filteredProducts);
 
-      // Exact match in name (highest weight)
-      if (productName.includes(word)) {
-        score += 3;
-      }
+    // Sort by relevance, then re-rank the best matches by meaning (when an embedding provider is set)
+    const rankedProducts = await semanticRerankService.rerank(
+      rankingService.rank(uniqueProducts, searchQuery, intent, ranker),
+      searchQuery
+    );
 
-      // Match in full product text
-      if (productText.includes(word)) {
-        score += 1;
-      }
-    });
+    // Enforce the budget, then put exact matches ahead of close alternatives
+    return constraintService.apply(rankedProducts, intent);
+  }
+
+  private hasExclusions(intent: SearchIntent): boolean {
+    return [intent.excludedTeams, intent.excludedDrivers, intent.excludedProductTypes, intent.excludedTerms]
+      .some((values) => !!values && values.length > 0);
+  }
 
-    // Bonus for in-stock items
-    if (product.availability === 'IN_STOCK') {
-      score += 0.5;
+  /**
+   * Correct misspelt team, driver and product words, extract search intent and build the scrape query
+   * The LLM result is cross-checked against the rule-based extractor, which also
+   * takes over when the LLM is disabled or fails
+   */
+  async resolveIntent(userQuery: string, context: IntentContext = {}): Promise<ResolvedIntent> {
+    const isFollowUp = !!context.previousIntent;
+    const spelling = spellingService.correct(userQuery);
+    const query = spelling.query;
+    const didYouMean = spelling.corrections.length > 0 ? query : null;
+
+    const ruleIntent = ruleIntentService.extract(query);
+    const useLlm = config.intent.extractor === 'llm' && !!config.openai.apiKey;
+
+    const llmIntent = useLlm ? await openAIService.extractIntent(query, context) : null;
+
+    let resolved: Omit<ResolvedIntent, 'searchQuery' | 'era' | 'didYouMean'>;
+
+    if (llmIntent) {
+      const { intent, discrepancies } = ruleIntentService.crossCheck(llmIntent, ruleIntent);
+      resolved = { intent, extractor: 'llm', discrepancies };
+    } else {
+      logger.warn('Using rule-based intent extraction', { reason: useLlm ? 'LLM extraction failed' : 'LLM disabled' });
+      // Follow-ups refine the previous intent just like the LLM path does
+      const intent = context.previousIntent
+        ? openAIService.mergeIntent(context.previousIntent, ruleIntent)
+        : ruleIntent;
+      resolved = { intent, extractor: 'rules', discrepancies: [] };
     }
 
-    return score;
+    // Link driver, team and season, dropping impossible combinations
+    const { intent, era } = eraService.resolve(resolved.intent);
+
+    // Follow-ups like "cheaper ones", impossible combinations and exclusions ("not Ferrari")
+    // make poor search terms, so build from the resolved intent
+    const useIntentQuery = isFollowUp || era.conflicts.length > 0 || this.hasExclusions(intent);
+    const searchQuery = openAIService.buildSearchQuery(intent, useIntentQuery ? undefined : query);
+
+    // Note: Token usage for intent extraction is logged in openai.service.ts
+    logger.info('Intent resolved', { ...resolved, intent, era, searchQuery, didYouMean });
+    return { ...resolved, intent, era, searchQuery, didYouMean };
   }
 
   /**
    * Main search method
+   * Pass the previous turn's intent and products in options.context to refine a follow-up search,
+   * options.resolvedIntent to skip extraction, options.ranker to override the configured ranker,
+   * options.facets to narrow results to selected facet values, options.sort to order them,
+   * options.sources to choose scraper targets, and options.onEvent to receive progress events
    */
   async searchProducts(
     userQuery: string,
-    maxResults: number = 20
+    maxResults: number = 20,
+    options: SearchOptions = {}
   ): Promise<SearchResult> {
+    const { context = {}, facets: facetSelection = {}, sort = 'relevance', sources = {}, onEvent } = options;
+    const ranker = options.ranker ?? config.ranking.ranker;
     const startTime = Date.now();
     const MAX_SEARCH_TIME = 45000; // 45 seconds max to avoid Vercel timeout
     const tokenUsage = {
@@ -126,142 +232,198 @@ class SearchService {
       total: { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 }
     };
     
-    logger.info('Starting product search', { userQuery, maxResults, maxTime: MAX_SEARCH_TIME });
+    const isFollowUp = !!context.previousIntent;
+
+    logger.info('Starting product search', { userQuery, maxResults, isFollowUp, ranker, maxTime: MAX_SEARCH_TIME });
+
+    // This search's own browser context, shared by its scrapes and retries
+    const session = browserPool.openSession();
 
     try {
-      // Check cache first
-      const cacheKey = `search:${userQuery.toLowerCase()}:${maxResults}`;
+      // Check cache first (follow-ups depend on the previous intent)
+      const contextKey = isFollowUp ? `:${JSON.stringify(context.previousIntent)}` : '';
+      const facetKey = Object.keys(facetSelection).length > 0 ? `:${JSON.stringify(facetSelection)}` : '';
+      const sourceKey = JSON.stringify(sources) !== '{}' ? `:${JSON.stringify(sources)}` : '';
+      const cacheKey = `search:${userQuery.toLowerCase()}:${maxResults}:${ranker}:${sort}${facetKey}${sourceKey}${contextKey}`;
       const cached = cache.get<SearchResult>(cacheKey);
       if (cached) {
         logger.info('Returning cached search results');
+        if (onEvent) {
+          onEvent({ type: 'intent', intent: cached.intent, searchQuery: cached.searchQuery, era: cached.era, didYouMean: cached.didYouMean });
+          onEvent({ type: 'products', products: cached.products, totalFound: cached.totalFound });
+          onEvent({ type: 'summary_token', token: cached.summary });
+          onEvent({ type: 'complete', result: cached });
+        }
         return cached;
       }
 
-      // Step 1: Extract search intent using OpenAI
-      let intent: SearchIntent;
-      let searchQuery: string;
-      
-      try {
-        intent = await openAIService.extractIntent(userQuery);
-        searchQuery = openAIService.buildSearchQuery(intent, userQuery);
-        
-        // Check if intent is empty or invalid
-        if (!intent || Object.keys(intent).length === 0 || !intent.item) {
-          throw new Error('Empty or invalid intent received');
-        }
-        
-        // Note: Token usage for intent extraction is logged in openai.service.ts
-        logger.info('Intent extracted successfully', { intent, searchQuery });
-      } catch (error) {
-        logger.warn('Intent extraction failed, using original query', { error: error instanceof Error ? error.message : 'Unknown error' });
-        // Fallback: use original query as search term
-        intent = {
-          item: userQuery.toLowerCase(),
-          team: undefined,
-          driver: undefined,
-          budget: undefined,
-          category: 'general'
-        };
-        searchQuery = userQuery;
-        logger.info('Using fallback search query', { searchQuery });
-      }
-      
-      // Step 3: Get scraper targets
-      const targets = getEnabledTargets();
-      logger.info(`Using ${targets.length} scraper targets`);
+      // Step 1: Extract search intent using OpenAI (unless the caller already resolved it)
+      const { intent, searchQuery, era, didYouMean } = options.resolvedIntent ?? await this.resolveIntent(userQuery, context);
 
-      // Step 4: Scrape all targets in parallel
-      logger.info('Starting parallel scraping with query links', {
-        searchQuery,
-        targets: targets.map(t => ({
-          id: t.id,
-          name: t.name,
-          searchUrl: `${t.baseUrl}${t.searchPath}${encodeURIComponent(searchQuery)}`,
-          enabled: t.enabled
-        }))
-      });
+      onEvent?.({ type: 'intent', intent, searchQuery, era, didYouMean });
       
-      const scraperResults = await scraperService.scrapeMultipleTargets(targets, searchQuery);
+      // Step 3: Get scraper targets (the request may narrow them by id or priority)
+      const targets = selectTargets(sources);
+      logger.info(`Using ${targets.length} scraper targets`, { sources });
 
-      // Step 5: Collect all products
-      const allProducts: Product[] = [];
-      const successfulSources: string[] = [];
-
-      scraperResults.forEach((result) => {
-        if (result.success && result.products.length > 0) {
-          allProducts.push(...result.products);
-          successfulSources.push(result.source);
-        }
-      });
-
-      logger.info(`Collected ${allProducts.length} products from ${successfulSources.length} sources`);
+      // Steps 4-5: Scrape all targets in parallel, each with a query in its own vocabulary
+      // Scrapes are kept per store query, so relaxed retries only scrape stores whose query changed
+      const scrapes = new Map<string, ScraperResult>();
+      let attempt = await this.scrape(intent, era, searchQuery, targets, scrapes, session, onEvent);
+      const { queryVariants, expandedTerms, products: allProducts, sources: successfulSources } = attempt;
 
       // Check if we're approaching timeout
       const elapsedTime = Date.now() - startTime;
       if (elapsedTime > MAX_SEARCH_TIME) {
         logger.warn('Approaching timeout, returning partial results', { elapsedTime, maxTime: MAX_SEARCH_TIME });
+        const partialSet = resultSetService.save({
+          userQuery,
+          searchQuery,
+          intent,
+          era,
+          queryVariants,
+          expandedTerms,
+          didYouMean,
+          relaxation: null,
+          ranker,
+          products: constraintService.apply(this.removeExcluded(allProducts, intent), intent),
+          sources: successfulSources,
+          summary: '',
+        });
+        const partialPage = resultSetService.page(partialSet, { offset: 0, pageSize: maxResults, sort, facets: facetSelection });
+        partialSet.summary = `Found ${partialPage.totalFound} products (partial results due to timeout)`;
+
         const partialResult: SearchResult = {
-          products: allProducts.slice(0, maxResults),
+          ...partialPage,
           searchQuery,
           intent,
-          summary: `Found ${allProducts.length} products (partial results due to timeout)`,
+          era,
+          queryVariants,
+          expandedTerms,
+          didYouMean,
+          relaxation: null,
+          ranker,
+          sort,
+          summary: partialSet.summary,
           sources: successfulSources,
-          totalFound: allProducts.length,
           processingTime: elapsedTime,
         };
+        if (onEvent) {
+          onEvent({ type: 'products', products: partialResult.products, totalFound: partialResult.totalFound });
+          onEvent({ type: 'summary_token', token: partialResult.summary });
+          onEvent({ type: 'complete', result: partialResult });
+        }
         return partialResult;
       }
 
-      // Step 6: Skip filtering - scrapers already did the search
-      // The scrapers search with the actual query, so filtering by intent is redundant
-      const filteredProducts = allProducts;
-      logger.info('Product filtering skipped - using all scraped products', {
-        originalCount: allProducts.length,
-        filteredCount: filteredProducts.length,
-        reason: 'Scrapers already performed search with query terms'
-      });
-      
-      // Step 7: Remove duplicates
-      const uniqueProducts = this.removeDuplicates(filteredProducts);
-      
-      // Step 8: Sort by relevance
-      const sortedProducts = this.sortByRelevance(uniqueProducts, searchQuery);
-      
-      // Step 9: Limit results
-      const finalProducts = sortedProducts.slice(0, maxResults);
+      // Steps 6-9: Remove exclusions, cluster offers, rank and check intent constraints
+      let sortedProducts = await this.rankProducts(allProducts, intent, searchQuery, ranker);
+
+      // Step 10: Nothing found (or nothing in budget), so retry with progressively relaxed constraints
+      // and stop at the first relaxation that finds something
+      let relaxation: Relaxation | null = null;
+      if (sortedProducts.length === 0) {
+        for (const candidate of relaxationService.getRelaxations(intent)) {
+          const relaxedQuery = openAIService.buildSearchQuery(candidate.intent);
+          const outOfTime = Date.now() - startTime > config.relaxation.maxElapsedMs;
+          if (outOfTime && !this.isScraped(candidate.intent, era, relaxedQuery, targets, scrapes)) {
+            logger.info('Relaxation skipped, no time left to scrape', { steps: candidate.steps });
+            continue;
+          }
+
+          const retry = await this.scrape(candidate.intent, era, relaxedQuery, targets, scrapes, session, onEvent);
+          const relaxedProducts = await this.rankProducts(retry.products, candidate.intent, relaxedQuery, ranker);
+          logger.info('Relaxed search attempted', { steps: candidate.steps, found: relaxedProducts.length });
+
+          if (relaxedProducts.length > 0) {
+            attempt = retry;
+            sortedProducts = relaxedProducts;
+            relaxation = candidate;
+            break;
+          }
+        }
+      }
 
-      // Step 10: Generate AI response
-      const summary = await openAIService.generateResponse(
+      // Step 11: Keep the ranked set so later pages don't scrape again
+      const resultSet = resultSetService.save({
         userQuery,
-        finalProducts,
+        searchQuery,
         intent,
-        successfulSources
-      );
+        era,
+        queryVariants: attempt.queryVariants,
+        expandedTerms: attempt.expandedTerms,
+        didYouMean,
+        relaxation,
+        ranker,
+        products: sortedProducts,
+        sources: attempt.sources,
+        summary: '',
+      });
+
+      // Step 12: Narrow to the selected facets, sort and take the first page
+      const page = resultSetService.page(resultSet, { offset: 0, pageSize: maxResults, sort, facets: facetSelection });
+      const finalProducts = page.products;
+
+      onEvent?.({ type: 'products', products: finalProducts, totalFound: page.totalFound });
+
+      // Step 13: Generate AI response (streamed token-by-token when a listener is attached)
+      // Impossible driver/team/season combinations and relaxed constraints are explained first
+      const notice = [...era.conflicts.map((c) => c.message), relaxation?.message]
+        .filter(Boolean)
+        .join(' ');
+      if (notice) {
+        onEvent?.({ type: 'summary_token', token: `${notice}\n\n` });
+      }
+
+      const response = onEvent
+        ? await openAIService.streamResponse(
+            userQuery,
+            finalProducts,
+            relaxation?.intent ?? intent,
+            attempt.sources,
+            (token) => onEvent({ type: 'summary_token', token })
+          )
+        : await openAIService.generateResponse(
+            userQuery,
+            finalProducts,
+            relaxation?.intent ?? intent,
+            attempt.sources
+          );
+      const summary = notice ? `${notice}\n\n${response}` : response;
+      resultSet.summary = summary;
 
       const processingTime = Date.now() - startTime;
 
       const result: SearchResult = {
-        products: finalProducts,
+        ...page,
         searchQuery,
         intent,
+        era,
+        queryVariants: attempt.queryVariants,
+        expandedTerms: attempt.expandedTerms,
+        didYouMean,
+        relaxation,
+        ranker,
+        sort,
         summary,
-        sources: successfulSources,
-        totalFound: sortedProducts.length,
+        sources: attempt.sources,
         processingTime,
       };
 
       // Cache the result
       cache.set(cacheKey, result);
+      onEvent?.({ type: 'complete', result });
 
       // Log total token usage and query links for this search request
       logger.info('Search completed successfully', {
         productsReturned: finalProducts.length,
-        totalFound: sortedProducts.length,
-        sources: successfulSources.length,
+        totalFound: page.totalFound,
+        sources: attempt.sources.length,
+        relaxation: relaxation?.steps,
         processingTime,
         queryLinks: targets.map(t => ({
           name: t.name,
-          url: `${t.baseUrl}${t.searchPath}${encodeURIComponent(searchQuery)}`,
+          url: `${t.baseUrl}${t.searchPath}${encodeURIComponent(attempt.queryVariants[t.id] || searchQuery)}`,
           enabled: t.enabled
         })),
         tokenUsage: {
@@ -280,11 +442,44 @@ class SearchService {
       logger.error('Search failed', error);
       throw error;
     } finally {
-      // Cleanup browser resources
-      await scraperService.closeBrowser();
+      // Closes only this search's context; the pool shuts the browser down once it's idle
+      await session.close();
     }
   }
 
+  /**
+   * Get the page a cursor points to from the stored result set, without scraping again
+   * Returns null when the cursor is malformed or its result set has expired
+   */
+  getPage(cursor: string): SearchResult | null {
+    const startTime = Date.now();
+    const resolved = resultSetService.resolveCursor(cursor);
+    if (!resolved) {
+      logger.info('Invalid or expired search cursor');
+      return null;
+    }
+
+    const { resultSet, request } = resolved;
+    const page = resultSetService.page(resultSet, request);
+    logger.info('Serving search page', { resultSetId: resultSet.id, offset: request.offset, sort: request.sort });
+
+    return {
+      ...page,
+      searchQuery: resultSet.searchQuery,
+      intent: resultSet.intent,
+      era: resultSet.era,
+      queryVariants: resultSet.queryVariants,
+      expandedTerms: resultSet.expandedTerms,
+      didYouMean: resultSet.didYouMean,
+      relaxation: resultSet.relaxation,
+      ranker: resultSet.ranker,
+      sort: request.sort,
+      summary: resultSet.summary,
+      sources: resultSet.sources,
+      processingTime: Date.now() - startTime,
+    };
+  }
+
   /**
    * Get search suggestions (for autocomplete)
    */
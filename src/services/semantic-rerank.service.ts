@@ -0,0 +1,78 @@
+/**
+ * Semantic Re-rank Service
+ * Re-orders the best keyword matches by embedding similarity to the query, so "something warm to wear
+ * at Silverstone" can surface jackets and hoodies that share no words with it
+ */
+
+import { embeddingService } from './embedding.service';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+import type { Product } from '../types';
+
+class SemanticRerankService {
+  /**
+   * Blend each of the top products' ranked position with its similarity to the query
+   * Products past config.embeddings.topK keep their place; the ranked order is returned unchanged when
+   * re-ranking is off, the provider fails or it takes longer than config.embeddings.timeout
+   */
+  async rerank(products: Product[], query: string): Promise<Product[]> {
+    const provider = embeddingService.getProvider();
+    if (!provider || products.length < 2) return products;
+
+    const { topK, weight, timeout } = config.embeddings;
+    const head = products.slice(0, topK);
+    const startTime = Date.now();
+
+    try {
+      const [queryVector, ...productVectors] = await this.withTimeout(
+        embeddingService.embed(provider, [query, ...head.map((product) => this.getProductText(product))]),
+        timeout
+      );
+
+      const similarities = productVectors.map((vector) => embeddingService.similarity(queryVector, vector));
+      const min = Math.min(...similarities);
+      const range = Math.max(...similarities) - min || 1;
+
+      const reordered = head
+        .map((product, index) => ({
+          product,
+          index,
+          score: (1 - weight) * (1 - index / head.length) + weight * ((similarities[index] - min) / range),
+        }))
+        .sort((a, b) => b.score - a.score || a.index - b.index);
+
+      logger.info('Semantic re-ranking applied', {
+        provider: provider.name,
+        model: provider.model,
+        reranked: head.length,
+        moved: reordered.filter((entry, position) => entry.index !== position).length,
+        duration: Date.now() - startTime,
+      });
+
+      return [...reordered.map((entry) => entry.product), ...products.slice(topK)];
+    } catch (error) {
+      logger.warn('Semantic re-ranking skipped, keeping keyword order', {
+        provider: provider.name,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return products;
+    }
+  }
+
+  /**
+   * Name plus the start of the description; long descriptions add cost but little signal
+   */
+  private getProductText(product: Product): string {
+    return product.description ? `${product.name}. ${product.description.slice(0, 200)}` : product.name;
+  }
+
+  private withTimeout<T>(promise: Promise<T>, ms: number): Promise<T> {
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new Error(`Embedding timed out after ${ms}ms`)), ms);
+    });
+    return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+  }
+}
+
+export const semanticRerankService = new SemanticRerankService();
@@ -0,0 +1,93 @@
+/**
+ * Spelling Service
+ * Corrects misspelt team, driver and product words ("verstapen", "ferarri", "hodie") against the
+ * knowledge base and product taxonomy, so intent extraction and scraping see the intended terms
+ */
+
+import { knowledgeBaseService } from './knowledge-base.service';
+import { COLOURS } from './rule-intent.service';
+import { logger } from '../utils/logger';
+import { calculateSimilarity, normalizeText, stemWord, STOP_WORDS } from '../utils/helpers';
+import { PRODUCT_TYPES } from '../config/product-taxonomy';
+import type { SpellingCorrection } from '../types';
+
+/** Everyday shopping words a typo away from a domain term ("short" / "shirt"), never corrected */
+const COMMON_WORDS = [
+  'short', 'shorts', 'sleeve', 'women', 'womens', 'ladies', 'kids', 'youth', 'adult', 'small', 'medium',
+  'large', 'extra', 'gift', 'present', 'birthday', 'christmas', 'something', 'anything', 'warm', 'winter',
+  'summer', 'wear', 'team', 'driver', 'race', 'racing', 'vintage', 'retro', 'official', 'replica', 'edition',
+  'limited', 'season', 'merch', 'merchandise', 'cheapest', 'budget', 'pound', 'dollar', 'euro', 'please',
+  'would', 'could', 'other', 'instead', 'original', 'classic', 'style', 'colour', 'color', 'hats', 'shoes',
+  'jumper', 'scarf', 'socks', 'gloves', 'watch', 'trainers',
+];
+
+/** Shorter words are too easily mistaken for another word to correct */
+const MIN_WORD_LENGTH = 5;
+
+class SpellingService {
+  private vocabulary: string[];
+  private knownWords: Set<string>;
+
+  constructor() {
+    const words = (phrases: string[]) => phrases.flatMap((phrase) => normalizeText(phrase).split(/[^a-z]+/));
+    const domainWords = Array.from(new Set([
+      ...words(knowledgeBaseService.getAliases()),
+      ...words(Object.values(PRODUCT_TYPES).flatMap((type) => type.keywords)),
+    ])).filter(Boolean);
+
+    this.vocabulary = domainWords.filter((word) => word.length >= MIN_WORD_LENGTH - 1);
+    this.knownWords = new Set([...domainWords, ...COLOURS, ...COMMON_WORDS, ...STOP_WORDS].flatMap((word) => [word, stemWord(word)]));
+  }
+
+  /**
+   * Replace each misspelt word with its closest domain term, keeping the rest of the query as typed
+   * A word is only corrected when one term starting with the same letter is clearly closest:
+   * one edit away for five-letter words, two for longer ones
+   */
+  correct(query: string): { query: string; corrections: SpellingCorrection[] } {
+    const corrections: SpellingCorrection[] = [];
+
+    const corrected = query.replace(/[\p{L}\p{N}]+/gu, (word) => {
+      const term = this.findTerm(word);
+      if (!term) return word;
+
+      const replacement = /^\p{Lu}/u.test(word) ? term.charAt(0).toUpperCase() + term.slice(1) : term;
+      corrections.push({ original: word, corrected: replacement });
+      return replacement;
+    });
+
+    if (corrections.length > 0) {
+      logger.info('Query spelling corrected', { query, corrected, corrections });
+    }
+
+    return { query: corrected, corrections };
+  }
+
+  private findTerm(word: string): string | null {
+    const normalized = normalizeText(word);
+    if (normalized.length < MIN_WORD_LENGTH || !/^[a-z]+$/.test(normalized)) return null;
+    if (this.knownWords.has(normalized) || this.knownWords.has(stemWord(normalized))) return null;
+
+    const allowedEdits = normalized.length <= MIN_WORD_LENGTH ? 1 : 2;
+    let best: { term: string; score: number } | null = null;
+    let tied = false;
+
+    for (const term of this.vocabulary) {
+      if (term[0] !== normalized[0]) continue;
+      const longest = Math.max(term.length, normalized.length);
+      const score = calculateSimilarity(normalized, term);
+      if (score < (longest - allowedEdits) / longest) continue;
+
+      if (!best || score > best.score) {
+        best = { term, score };
+        tied = false;
+      } else if (score === best.score) {
+        tied = true;
+      }
+    }
+
+    return best && !tied ? best.term : null;
+  }
+}
+
+export const spellingService = new SpellingService();
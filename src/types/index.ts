@@ -3,6 +3,8 @@
  * Centralized type definitions for the application
  */
 
+import type { Page } from 'puppeteer-core';
+
 // ============================================================================
 // Product Types
 // ============================================================================
@@ -19,6 +21,35 @@ export interface Product {
   availability: AvailabilityStatus;
   source: string;
   scrapedAt: Date;
+  offers?: ProductOffer[]; // One per store selling the product, cheapest first
+  match?: ProductMatch; // How the product meets the search intent
+  compareAtPrice?: Price; // Price before the store's discount, when on sale
+  images?: string[];
+  variants?: ProductVariant[]; // Sizes, colours and other options the store sells separately
+  extractedBy?: ExtractionTier; // How the product was read from the store
+}
+
+// Structured data (json-ld, microdata, opengraph) is tried before selectors, and both before ai;
+// api is a store's JSON endpoint
+export type ExtractionTier = 'json-ld' | 'microdata' | 'opengraph' | 'selectors' | 'ai' | 'api';
+
+export interface ProductVariant {
+  id: string;
+  title: string;
+  price: Price;
+  compareAtPrice?: Price;
+  availability: AvailabilityStatus;
+  imageUrl?: string;
+}
+
+export interface ProductOffer {
+  productId: string;
+  name: string;
+  source: string;
+  url: string;
+  price: Price;
+  compareAtPrice?: Price; // Price before this store's discount, when on sale
+  availability: AvailabilityStatus;
 }
 
 export interface Price {
@@ -34,24 +65,221 @@ export type AvailabilityStatus = 'IN_STOCK' | 'OUT_OF_STOCK' | 'LIMITED_STOCK';
 // Search Types
 // ============================================================================
 
+export type ProductCondition = 'new' | 'used';
+
+export type ProductCategory = 'clothing' | 'headwear' | 'collectibles' | 'accessories';
+
+export type ProductType =
+  | 't-shirt'
+  | 'polo'
+  | 'hoodie'
+  | 'jacket'
+  | 'jersey'
+  | 'cap'
+  | 'beanie'
+  | 'helmet'
+  | 'model-car'
+  | 'memorabilia'
+  | 'poster'
+  | 'flag'
+  | 'bag'
+  | 'accessory'
+  | 'other';
+
 export interface SearchIntent {
   item?: string;
+  productType?: ProductType;
+  category?: string;
   team?: string;
   driver?: string;
-  budget?: number;
-  category?: string;
+  minPrice?: number;
+  maxPrice?: number;
+  currency?: Currency;
+  size?: string;
+  colour?: string;
+  season?: number;
+  era?: MerchandiseEra; // Set when the user asks for retro or past-decade merchandise rather than one season
+  condition?: ProductCondition;
+  excludedTeams?: string[];
+  excludedDrivers?: string[];
+  excludedProductTypes?: ProductType[];
+  excludedTerms?: string[];
 }
 
 export interface SearchResult {
   products: Product[];
   searchQuery: string;
   intent: SearchIntent;
+  era: IntentEra;
+  queryVariants: Record<string, string>; // Query each store was searched with
+  expandedTerms: string[]; // Synonyms of the requested item, also used for ranking
+  didYouMean: string | null; // Corrected query when the user's was misspelt
+  relaxation: Relaxation | null; // Set when nothing matched and a relaxed retry found these products
+  ranker: RankerName;
+  facets: SearchFacets;
+  exactMatches: number; // Products meeting every constraint; the rest are close alternatives
+  sort: SortOption;
+  nextCursor: string | null; // Pass back as `cursor` for the next page; null on the last page
   summary: string;
   sources: string[];
   totalFound: number;
   processingTime: number;
 }
 
+export type IntentExtractor = 'llm' | 'rules';
+
+export interface IntentDiscrepancy {
+  field: keyof SearchIntent;
+  llm: unknown;
+  rules: unknown;
+  resolution: IntentExtractor;
+}
+
+export interface SpellingCorrection {
+  original: string;
+  corrected: string;
+}
+
+export type RelaxationStep = 'driver' | 'budget' | 'synonyms' | 'category';
+
+// A retry with looser constraints after a search found nothing
+export interface Relaxation {
+  steps: RelaxationStep[]; // Every relaxation applied; the last one produced the results
+  intent: SearchIntent; // The relaxed intent the results were searched and checked with
+  message: string; // Tells the user what was relaxed
+}
+
+export interface ResolvedIntent {
+  intent: SearchIntent;
+  searchQuery: string;
+  didYouMean: string | null; // The corrected query when words were misspelt, which is what was searched
+  extractor: IntentExtractor;
+  discrepancies: IntentDiscrepancy[];
+  era: IntentEra;
+}
+
+export type MerchandiseEra = 'current' | 'vintage';
+
+export interface EraConflict {
+  driver?: string;
+  team: string;
+  season?: number;
+  message: string;
+}
+
+export interface IntentEra {
+  era: MerchandiseEra;
+  teamName?: string;
+  inferred: Array<'team' | 'season'>;
+  conflicts: EraConflict[];
+}
+
+export interface SearchOptions {
+  context?: IntentContext;
+  resolvedIntent?: ResolvedIntent;
+  ranker?: RankerName;
+  facets?: FacetSelection;
+  sort?: SortOption;
+  sources?: SourceSelection;
+  onEvent?: SearchEventHandler;
+}
+
+// ============================================================================
+// Constraint Types
+// ============================================================================
+
+export type IntentConstraint = 'team' | 'driver' | 'productType' | 'colour' | 'season' | 'size' | 'condition' | 'budget';
+
+export type ConstraintStatus = 'match' | 'unknown' | 'violated';
+
+export interface ConstraintCheck {
+  constraint: IntentConstraint;
+  status: ConstraintStatus;
+  hard: boolean; // Products violating hard constraints are removed
+  reason?: string;
+}
+
+export interface ConstraintViolation {
+  constraint: IntentConstraint;
+  reason: string; // "Red Bull, not Ferrari"
+}
+
+export interface ProductMatch {
+  exact: boolean;
+  violations: ConstraintViolation[];
+}
+
+// ============================================================================
+// Facet Types
+// ============================================================================
+
+export type FacetField = 'teams' | 'drivers' | 'categories' | 'prices' | 'sources' | 'availability';
+
+export interface FacetValue {
+  value: string;
+  label: string;
+  count: number;
+  selected: boolean;
+}
+
+export type SearchFacets = Record<FacetField, FacetValue[]>;
+
+// Values selected per facet: any value within a facet matches, every facet must match
+export type FacetSelection = Partial<Record<FacetField, string[]>>;
+
+// ============================================================================
+// Pagination Types
+// ============================================================================
+
+export type SortOption = 'relevance' | 'price_asc' | 'price_desc' | 'newest' | 'source_priority';
+
+// Ranked products of one search, kept so later pages don't scrape again
+export interface SearchResultSet {
+  id: string;
+  userQuery: string;
+  searchQuery: string;
+  intent: SearchIntent;
+  era: IntentEra;
+  queryVariants: Record<string, string>;
+  expandedTerms: string[];
+  didYouMean: string | null;
+  relaxation: Relaxation | null;
+  ranker: RankerName;
+  products: Product[];
+  sources: string[];
+  summary: string;
+  createdAt: Date;
+  expiresAt: Date;
+}
+
+export interface ResultPageRequest {
+  offset: number;
+  pageSize: number;
+  sort: SortOption;
+  facets: FacetSelection;
+}
+
+export interface ResultPage {
+  products: Product[];
+  facets: SearchFacets;
+  exactMatches: number;
+  totalFound: number;
+  nextCursor: string | null;
+}
+
+// ============================================================================
+// Streaming Types
+// ============================================================================
+
+export type SearchStreamEvent =
+  | { type: 'intent'; intent: SearchIntent; searchQuery: string; era: IntentEra; didYouMean: string | null }
+  | { type: 'scraper_result'; result: ScraperResult }
+  | { type: 'products'; products: Product[]; totalFound: number }
+  | { type: 'summary_token'; token: string }
+  | { type: 'complete'; result: SearchResult };
+
+export type SearchEventHandler = (event: SearchStreamEvent) => void;
+
 // ============================================================================
 // Scraper Types
 // ============================================================================
@@ -67,6 +295,75 @@ export interface ScraperTarget {
   selectors: ScraperSelectors;
   requiresJavaScript: boolean;
   timeout: number;
+  merchandise?: MerchandiseEra[]; // Eras of merchandise the store stocks, defaults to current
+  queryTemplate?: string; // Search query built from the intent, e.g. "F1 {season} {team} {driver} {colour} {item}"
+  vocabulary?: Partial<Record<ProductType, string>>; // The store's own word for a product type ("diecast" for model-car)
+  adapter?: string; // Registered adapter id or strategy, defaults to puppeteer or cheerio from requiresJavaScript
+  currency?: Currency; // Currency of prices the store gives as bare numbers (Shopify JSON), defaults to USD
+  jsonApi?: JsonApiMapping; // Endpoint and response fields for the json-api strategy
+  pagination?: PaginationConfig; // How to read past the first page of results, defaults to the first page only
+}
+
+// load-more and infinite-scroll need a browser; cursor needs a JSON API
+export type PaginationStrategy = 'load-more' | 'page-param' | 'infinite-scroll' | 'cursor';
+
+export interface PaginationConfig {
+  strategy: PaginationStrategy;
+  maxPages?: number; // Pages read after the first (clicks or scrolls for in-page strategies)
+  maxItems?: number;
+  button?: string; // load-more: selector list for the button
+  buttonText?: string[]; // load-more: text of the button or link when no button selector is configured, e.g. ["load more"]
+  param?: string; // page-param: URL parameter holding the page number, e.g. "page" or "_pgn"
+  firstPage?: number; // page-param: number of the first page, defaults to 1
+  cursorParam?: string; // cursor: request parameter carrying the cursor
+  cursorPath?: string; // cursor: dotted path to the next cursor in the JSON response
+}
+
+// How an adapter fetches a store's products
+export type ScraperStrategy = 'cheerio' | 'puppeteer' | 'json-api' | 'shopify' | 'ai';
+
+// Site- or strategy-specific scraper, looked up in the scraper registry by a target's adapter
+export interface ScraperAdapter {
+  id: string;
+  strategy: ScraperStrategy;
+  search(target: ScraperTarget, query: string, session?: BrowserSession): Promise<Product[]>;
+  getProductDetails?(target: ScraperTarget, url: string): Promise<Product | null>;
+  healthCheck(target: ScraperTarget): Promise<ScraperHealth>;
+}
+
+// One search's incognito browser context; browser adapters borrow pooled pages from it, and scrape in
+// a session of their own when not given one
+export interface BrowserSession {
+  withPage<T>(fn: (page: Page) => Promise<T>): Promise<T>;
+  close(): Promise<void>;
+}
+
+export interface ScraperHealth {
+  healthy: boolean;
+  latency: number;
+  status?: number;
+  error?: string;
+}
+
+// Dotted paths into a store's JSON search response, e.g. itemsPath "data.products", price "price.current"
+export interface JsonApiMapping {
+  searchPath: string; // Path with a {query} placeholder, e.g. "/api/search?term={query}"
+  itemsPath: string;
+  fields: {
+    name: string;
+    price: string;
+    url: string;
+    imageUrl?: string;
+    availability?: string;
+    description?: string;
+  };
+}
+
+// Per-request choice of targets by id; only enabled targets can be included
+export interface SourceSelection {
+  include?: string[];
+  exclude?: string[];
+  minPriority?: number;
 }
 
 export interface ScraperSelectors {
@@ -77,7 +374,6 @@ export interface ScraperSelectors {
   link: string;
   availability?: string;
   description?: string;
-  loadMoreButton?: string;
 }
 
 export interface ScraperResult {
@@ -95,7 +391,14 @@ export interface ScraperResult {
 export interface ApiRequest {
   message: string;
   maxResults?: number;
-  sources?: string[];
+  sources?: string[]; // Target ids to scrape, defaults to every enabled target
+  excludeSources?: string[];
+  minPriority?: number;
+  sessionId?: string;
+  ranker?: RankerName;
+  facets?: FacetSelection;
+  sort?: SortOption;
+  cursor?: string;
 }
 
 export interface ApiResponse {
@@ -126,6 +429,234 @@ export interface ResponseGenerationPrompt {
   sources: string[];
 }
 
+// ============================================================================
+// Conversation Types
+// ============================================================================
+
+export type ConversationRole = 'user' | 'assistant';
+
+export interface ConversationMessage {
+  role: ConversationRole;
+  content: string;
+  timestamp: Date;
+}
+
+export interface ConversationSession {
+  id: string;
+  messages: ConversationMessage[];
+  lastIntent?: SearchIntent;
+  pendingClarification?: Clarification;
+  pendingIntent?: SearchIntent; // The vague intent the pending clarification asked about
+  lastProducts: Product[];
+  createdAt: Date;
+  updatedAt: Date;
+  expiresAt: Date;
+}
+
+export interface IntentContext {
+  previousIntent?: SearchIntent;
+  previousProducts?: Product[];
+  history?: ConversationMessage[];
+}
+
+// ============================================================================
+// Routing Types
+// ============================================================================
+
+export type MessageRoute = 'product_search' | 'follow_up' | 'general_chat' | 'out_of_scope';
+
+export interface RouteDecision {
+  route: MessageRoute;
+  confidence: number;
+  reason: string;
+  method: 'llm' | 'rules';
+}
+
+// ============================================================================
+// Clarification Types
+// ============================================================================
+
+export type ClarificationField = 'item' | 'team' | 'driver' | 'price';
+
+export interface ClarificationOption {
+  label: string;
+  value: string;
+}
+
+export interface Clarification {
+  question: string;
+  field: ClarificationField;
+  options: ClarificationOption[];
+}
+
+// ============================================================================
+// F1 Knowledge Base Types
+// ============================================================================
+
+export type F1EntityType = 'team' | 'driver';
+
+export interface F1TeamName {
+  name: string;
+  from: number;
+  to: number | null;
+  aliases: string[];
+}
+
+export interface F1Team {
+  id: string;
+  name: string;
+  fullName: string;
+  aliases: string[];
+  names: F1TeamName[];
+}
+
+export interface F1DriverStint {
+  team: string;
+  from: number;
+  to: number | null;
+}
+
+export interface F1Driver {
+  id: string;
+  name: string;
+  fullName: string;
+  number?: number;
+  aliases: string[];
+  teams: F1DriverStint[];
+}
+
+export interface F1KnowledgeBase {
+  version: string;
+  updatedAt: string;
+  currentSeason: number;
+  teams: F1Team[];
+  drivers: F1Driver[];
+}
+
+export interface F1EntityMention {
+  type: F1EntityType;
+  id: string;
+  name: string;
+  alias: string;
+  start: number;
+  end: number;
+}
+
+// ============================================================================
+// Ranking Types
+// ============================================================================
+
+export type RankerName = 'bm25' | 'legacy';
+
+export interface Ranker {
+  name: RankerName;
+  /** Score each product for the query and intent; higher scores rank first */
+  score(products: Product[], query: string, intent: SearchIntent): number[];
+}
+
+export interface RankingFieldWeights {
+  name: number;
+  description: number;
+  brand: number;
+}
+
+export interface RankingBoosts {
+  team: number;
+  driver: number;
+  productType: number;
+  colour: number;
+  season: number;
+  size: number;
+  condition: number;
+  inBudget: number;
+  outOfBudget: number;
+  inStock: number;
+  limitedStock: number;
+  outOfStock: number;
+  excluded: number;
+  violated: number; // Per soft constraint the product contradicts
+}
+
+// ============================================================================
+// Embedding Types
+// ============================================================================
+
+export type EmbeddingProviderName = 'openai' | 'local' | 'hash';
+
+export interface EmbeddingProvider {
+  name: EmbeddingProviderName;
+  model: string;
+  /** Embed each text; vectors are unit length so a dot product is their cosine similarity */
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+// ============================================================================
+// Evaluation Types
+// ============================================================================
+
+export interface IntentEvalCase {
+  id: string;
+  query: string;
+  context?: Pick<IntentContext, 'previousIntent' | 'previousProducts'>;
+  expected: SearchIntent;
+  tags?: string[];
+  knownFailures?: Partial<Record<IntentExtractor, string>>; // Why an extractor is expected to get this case wrong
+}
+
+export interface IntentEvalDataset {
+  version: string;
+  description?: string;
+  cases: IntentEvalCase[];
+}
+
+export interface IntentFieldScore {
+  field: keyof SearchIntent;
+  truePositives: number;
+  falsePositives: number;
+  falseNegatives: number;
+  precision: number;
+  recall: number;
+  f1: number;
+}
+
+export interface IntentFieldDiff {
+  field: keyof SearchIntent;
+  expected: unknown;
+  actual: unknown;
+}
+
+export interface IntentCaseResult {
+  id: string;
+  query: string;
+  actual: SearchIntent | null;
+  exact: boolean;
+  diffs: IntentFieldDiff[];
+  knownFailure?: string;
+}
+
+export interface IntentEvalReport {
+  extractor: string;
+  datasetVersion: string;
+  createdAt: string;
+  totalCases: number;
+  exactMatches: number;
+  failedExtractions: number;
+  overall: Pick<IntentFieldScore, 'precision' | 'recall' | 'f1'>;
+  fields: IntentFieldScore[];
+  cases: IntentCaseResult[];
+}
+
+export interface RecordedCompletion {
+  requestHash: string;
+  response: unknown;
+}
+
+export interface IntentRecording {
+  model: string;
+  recordedAt: string;
+  responses: Record<string, RecordedCompletion[]>;
+}
+
 // ============================================================================
 // Cache Types
 // ============================================================================
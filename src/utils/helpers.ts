@@ -58,6 +58,13 @@ export function normalizePrice(priceText: string): Price {
     }
   }
 
+  return createPrice(amount, currency);
+}
+
+/**
+ * Structured price from an amount already parsed
+ */
+export function createPrice(amount: number, currency: Currency): Price {
   const currencySymbols = {
     USD: '$',
     EUR: '€',
@@ -81,6 +88,57 @@ export function sanitizeText(text: string): string {
     .replace(/[^\w\s$€£.,!?-]/g, '');
 }
 
+/**
+ * Escape special characters for use in a RegExp
+ */
+export function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Lowercase, strip accents and collapse whitespace ("Pérez" -> "perez")
+ */
+export function normalizeText(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Words that carry no meaning for matching products, including budget phrasing ("under", "cheap")
+ */
+export const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'any', 'are', 'at', 'be', 'by', 'for', 'from', 'i', 'in', 'is', 'it', 'me', 'my', 'of',
+  'on', 'or', 'some', 'the', 'to', 'with', 'want', 'looking', 'find', 'show', 'buy', 'under', 'below',
+  'over', 'above', 'less', 'more', 'than', 'cheap', 'cheaper', 'price', 'around', 'about',
+]);
+
+/**
+ * Reduce a word to a crude stem so plurals match ("caps" -> "cap", "hoodies" and "hoodie" -> "hoody")
+ */
+export function stemWord(word: string): string {
+  if (word.length <= 3 || /\d/.test(word)) return word;
+  if (word.endsWith('ies')) return `${word.slice(0, -3)}y`;
+  if (word.endsWith('ie')) return `${word.slice(0, -2)}y`;
+  if (/(?:ss|x|ch|sh)es$/.test(word)) return word.slice(0, -2);
+  if (/[^su]s$/.test(word)) return word.slice(0, -1);
+  return word;
+}
+
+/**
+ * Split text into stemmed word tokens without stop words ("Ferrari Caps & Hats" -> ["ferrari", "cap", "hat"])
+ * Single letters are dropped, digits kept ("2024", "44")
+ */
+export function tokenize(text: string): string[] {
+  return normalizeText(text)
+    .split(/[^a-z0-9]+/)
+    .filter((word) => (word.length > 1 || /\d/.test(word)) && !STOP_WORDS.has(word))
+    .map(stemWord);
+}
+
 /**
  * Calculate string similarity (0-1)
  */
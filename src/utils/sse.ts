@@ -0,0 +1,45 @@
+/**
+ * Server-Sent Events Utility
+ * Helpers for streaming progress events from API routes
+ */
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+
+/**
+ * Check whether the client asked for a streaming response
+ * Either `stream: true` in the body or an `Accept: text/event-stream` header
+ */
+export function wantsEventStream(req: NextApiRequest): boolean {
+  const accept = req.headers.accept || '';
+  return req.body?.stream === true || accept.includes('text/event-stream');
+}
+
+/**
+ * Open an event stream on the response
+ */
+export function initEventStream(res: NextApiResponse): void {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream; charset=utf-8',
+    'Cache-Control': 'no-cache, no-transform',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no', // Disable proxy buffering
+  });
+  res.flushHeaders?.();
+}
+
+/**
+ * Write a single named event
+ */
+export function sendEvent(res: NextApiResponse, event: string, data: unknown): void {
+  if (res.writableEnded) return;
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+/**
+ * Close the event stream
+ */
+export function endEventStream(res: NextApiResponse): void {
+  if (!res.writableEnded) {
+    res.end();
+  }
+}